@@ -0,0 +1,132 @@
+import { RawMessage, Vector2, Vector3, VectorXZ } from "@minecraft/server";
+import { MinecraftBlockTypes, MinecraftItemTypes } from "@minecraft/vanilla-data";
+import { sentry, TypeModel } from "./TypeSentry";
+import { Identifier } from "../utils/NeoRegistry";
+import { IntRange, Range } from "../utils/NumberRange";
+
+/**
+ * 文字列を`parser`で解釈できることを要求し、解釈した結果を変換後の値とする型を生成します。
+ * @param parser 解釈に失敗したときに例外を投げる関数
+ * @param message 解釈に失敗したときの`ValidationIssue.message`
+ */
+function parsableStringOf<T>(parser: (string: string) => T, message: string): TypeModel<string, T> {
+    return sentry.string.transform(string => {
+        try {
+            return { value: parser(string) };
+        }
+        catch {
+            return undefined;
+        }
+    }).refine((parsed): parsed is { value: T } => parsed !== undefined, message).transform(parsed => parsed.value);
+}
+
+/**
+ * 名前空間を持つ識別子の形式
+ */
+const IDENTIFIER_PATTERN = /^[a-z0-9_.-]+:[a-z0-9_./-]+$/;
+
+/**
+ * 文字列が列挙型の値のいずれかであることを要求する型を生成します。
+ * <br>値が多い列挙型を`enumLikeOf()`で表すと文字列表現が膨大になるため、`string`として表示します。
+ */
+function idOf<T extends string>(enumeration: Record<string, T>, message: string): TypeModel<string, T> {
+    const ids: ReadonlySet<string> = new Set(Object.values(enumeration));
+    return sentry.string.refine((string): string is T => ids.has(string), message);
+}
+
+const SYMBOL_FOR_PRIVATE_CONSTRUCTOR = Symbol();
+
+/**
+ * スクリプトAPIで扱う値の`TypeModel`を提供するクラス
+ */
+export class MinecraftTypeSentry {
+    /**
+     * `MinecraftTypeSentry`のコンストラクタ関数
+     * @param _ 外部からのインスタンス化を封じるための`symbol`オブジェクト
+     */
+    protected constructor(_: typeof SYMBOL_FOR_PRIVATE_CONSTRUCTOR) {}
+
+    /**
+     * `Vector3` (各成分は`NaN`でない数値)
+     */
+    public readonly vector3: TypeModel<Vector3> = sentry.structOf({
+        x: sentry.number.nonNaN(),
+        y: sentry.number.nonNaN(),
+        z: sentry.number.nonNaN()
+    });
+
+    /**
+     * `Vector2` (各成分は`NaN`でない数値)
+     */
+    public readonly vector2: TypeModel<Vector2> = sentry.structOf({
+        x: sentry.number.nonNaN(),
+        y: sentry.number.nonNaN()
+    });
+
+    /**
+     * `VectorXZ` (各成分は`NaN`でない数値)
+     */
+    public readonly vectorXZ: TypeModel<VectorXZ> = sentry.structOf({
+        x: sentry.number.nonNaN(),
+        z: sentry.number.nonNaN()
+    });
+
+    /**
+     * `RawMessage` (`rawtext`と`with`は再帰的に検査される)
+     */
+    public readonly rawMessage: TypeModel<RawMessage> = sentry.recursive<RawMessage>("RawMessage", self => sentry.structOf({
+        rawtext: sentry.optionalOf(sentry.arrayOf(self)),
+        score: sentry.optionalOf(sentry.structOf({
+            name: sentry.optionalOf(sentry.string),
+            objective: sentry.optionalOf(sentry.string)
+        })),
+        text: sentry.optionalOf(sentry.string),
+        translate: sentry.optionalOf(sentry.string),
+        with: sentry.optionalOf(sentry.unionOf(sentry.arrayOf(sentry.string), self))
+    }));
+
+    /**
+     * 名前空間を持つ識別子の文字列 (`minecraft:stone`など)
+     * <br>名前空間と名前はいずれも空でなく、英小文字と数字と`_.-`(名前は`/`も)のみからなる必要があります。
+     * <br>`parse()`は`Identifier`を返します。
+     */
+    public readonly identifier: TypeModel<string, Identifier> = sentry.string.refine(string => IDENTIFIER_PATTERN.test(string), "無効な識別子です").transform(string => Identifier.of(string));
+
+    /**
+     * `min..max`形式の範囲の文字列
+     * <br>`parse()`は`Range`を返します。
+     */
+    public readonly range: TypeModel<string, Range> = parsableStringOf(string => Range.parse(string, true, false), "無効な範囲です");
+
+    /**
+     * `min..max`形式の整数の範囲の文字列
+     * <br>`parse()`は`IntRange`を返します。
+     */
+    public readonly intRange: TypeModel<string, IntRange> = parsableStringOf(string => IntRange.parse(string, true), "無効な整数の範囲です");
+
+    /**
+     * バニラのブロックID (`minecraft:stone`など)
+     */
+    public readonly blockTypeId: TypeModel<string, MinecraftBlockTypes> = idOf(MinecraftBlockTypes, "未知のブロックIDです");
+
+    /**
+     * バニラのアイテムID (`minecraft:diamond`など)
+     */
+    public readonly itemTypeId: TypeModel<string, MinecraftItemTypes> = idOf(MinecraftItemTypes, "未知のアイテムIDです");
+
+    /**
+     * 名前空間を省略できる識別子の文字列
+     * @param defaultNamespace 名前空間が省略されたときに使われる名前空間
+     * @returns `parse()`が`Identifier`を返す`TypeModel`
+     */
+    public defaultedIdentifierOf(defaultNamespace: string): TypeModel<string, Identifier> {
+        return parsableStringOf(string => Identifier.of(string, defaultNamespace), "無効な識別子です");
+    }
+}
+
+/**
+ * `MinecraftTypeSentry`のインスタンス
+ */
+export const mcsentry: MinecraftTypeSentry = (class extends MinecraftTypeSentry {
+    public static readonly INSTANCE: MinecraftTypeSentry = new this(SYMBOL_FOR_PRIVATE_CONSTRUCTOR);
+}).INSTANCE;
@@ -1,962 +1,3490 @@
+import { BigIntRange, IntRange, Range } from "../utils/NumberRange";
+
 /**
- * `T`型の型構造を表現する抽象クラス
+ * 検査の失敗を表現する型
  */
-export abstract class TypeModel<T> {
-    public constructor() {}
+export interface ValidationIssue {
+    /**
+     * 失敗した値の位置を表すJSON Pointer形式のパス (ルートは空文字列)
+     */
+    readonly path: string;
 
     /**
-     * オブジェクトが`T`型であるかを判定します。
-     * <br>必要に応じて追加のチェックも行う場合があります。
-     * @param x 検査するオブジェクト
+     * 期待された型の文字列表現
      */
-    public abstract test(x: unknown): x is T;
+    readonly expected: string;
 
     /**
-     * オブジェクトが`T`型であればそのまま返し、そうでなければ例外を投げます。
-     * <br>必要に応じて追加のチェックも行う場合があります。
-     * @param x 検査するオブジェクト
-     * @throws `TypeSentryError`
+     * 実際の値
      */
-    public cast(x: unknown): T {
-        if (this.test(x)) {
-            return x;
-        }
-        else {
-            throw new TypeSentryError(`値のキャストに失敗しました: '${x}'の型は期待された型(${this.toString()})に一致しません`);
-        }
-    }
+    readonly actual: unknown;
 
     /**
-     * このインスタンスの文字列表現を返します。
+     * 失敗の内容
      */
-    public abstract toString(): string;
+    readonly message: string;
 }
 
-abstract class PrimitiveModel<T extends boolean | number | bigint | string | symbol | null | undefined> extends TypeModel<T> {
-    protected constructor() {
-        super();
-    }
+/**
+ * 検査に成功したときの結果
+ */
+export interface ValidationSuccess<T> {
+    readonly success: true;
+
+    /**
+     * 検査された値
+     */
+    readonly value: T;
 }
 
-class BooleanModel extends PrimitiveModel<boolean> {
-    public override test(x: unknown): x is boolean {
-        return typeof x === "boolean";
-    }
+/**
+ * 検査に失敗したときの結果
+ */
+export interface ValidationFailure {
+    readonly success: false;
 
-    public override toString(): string {
-        return "boolean";
-    }
+    /**
+     * 全ての失敗
+     */
+    readonly issues: readonly ValidationIssue[];
+}
 
-    public static readonly INSTANCE: BooleanModel = new this();
+/**
+ * `TypeModel.validate()`の結果
+ */
+export type ValidationResult<T> = ValidationSuccess<T> | ValidationFailure;
+
+/**
+ * JSON Schemaの`type`キーワードに使用可能な値
+ */
+export type JSONSchemaTypeName = "null" | "boolean" | "object" | "array" | "number" | "integer" | "string";
+
+/**
+ * JSON Schema (draft 2020-12) のスキーマオブジェクト
+ */
+export interface JSONSchemaObject {
+    readonly $schema?: string;
+
+    readonly $ref?: string;
+
+    readonly $defs?: Readonly<Record<string, JSONSchema>>;
+
+    readonly type?: JSONSchemaTypeName | readonly JSONSchemaTypeName[];
+
+    readonly const?: unknown;
+
+    readonly enum?: readonly unknown[];
+
+    readonly anyOf?: readonly JSONSchema[];
+
+    readonly oneOf?: readonly JSONSchema[];
+
+    readonly allOf?: readonly JSONSchema[];
+
+    readonly not?: JSONSchema;
+
+    readonly properties?: Readonly<Record<string, JSONSchema>>;
+
+    readonly required?: readonly string[];
+
+    readonly additionalProperties?: JSONSchema;
+
+    readonly propertyNames?: JSONSchema;
+
+    readonly items?: JSONSchema;
+
+    readonly prefixItems?: readonly JSONSchema[];
+
+    readonly minItems?: number;
+
+    readonly maxItems?: number;
+
+    readonly minLength?: number;
+
+    readonly minimum?: number;
+
+    readonly maximum?: number;
+
+    readonly exclusiveMinimum?: number;
+
+    readonly exclusiveMaximum?: number;
+
+    readonly multipleOf?: number;
+
+    readonly uniqueItems?: boolean;
+
+    readonly maxLength?: number;
+
+    readonly pattern?: string;
+
+    readonly title?: string;
+
+    readonly description?: string;
+
+    readonly default?: unknown;
 }
 
-class NumberModel extends PrimitiveModel<number> {
-    public override test(x: unknown): x is number {
-        return typeof x === "number";
-    }
+/**
+ * JSON Schema (`true`は任意の値、`false`は何にも一致しないことを表す)
+ */
+export type JSONSchema = boolean | JSONSchemaObject;
+
+/**
+ * `TypeModel.getStructure()`が返す型の構造 (`kind`で判別する)
+ */
+export type TypeModelStructure =
+    | NumberModelStructure
+    | { readonly kind: "boolean" | "bigint" | "string" | "symbol" | "null" | "undefined" | "void" | "any" | "unknown" | "never" | "anyFunction" | "custom" }
+    | { readonly kind: "literal"; readonly value: boolean | number | bigint | string | symbol }
+    | { readonly kind: "enum"; readonly enumeration: Readonly<Record<string, string | number>> }
+    | { readonly kind: "array" | "set"; readonly element: TypeModel<unknown> }
+    | { readonly kind: "map" | "record"; readonly key: TypeModel<unknown>; readonly value: TypeModel<unknown> }
+    | { readonly kind: "tuple"; readonly elements: readonly TypeModel<unknown>[] }
+    | { readonly kind: "union" | "intersection"; readonly members: readonly TypeModel<unknown>[] }
+    | { readonly kind: "discriminatedUnion"; readonly key: string; readonly members: ReadonlyMap<string, TypeModel<unknown>> }
+    | { readonly kind: "undefindable" | "nullable" | "optional" | "promise"; readonly inner: TypeModel<unknown> }
+    | { readonly kind: "object"; readonly properties: Readonly<Record<string, TypeModel<unknown>>> }
+    | { readonly kind: "struct"; readonly properties: Readonly<Record<string | number | symbol, TypeModel<unknown>>>; readonly exact: boolean; readonly catchall: TypeModel<unknown> | undefined }
+    | { readonly kind: "class"; readonly constructorObject: Function }
+    | { readonly kind: "function"; readonly parameters: readonly TypeModel<unknown>[]; readonly returnValue: TypeModel<unknown> }
+    | { readonly kind: "lazy"; readonly name: string | undefined; resolve(): TypeModel<unknown> }
+    | { readonly kind: "transform"; readonly source: TypeModel<unknown> }
+    | { readonly kind: "refine"; readonly source: TypeModel<unknown>; readonly message: string }
+    | { readonly kind: "pipe"; readonly source: TypeModel<unknown>; readonly target: TypeModel<unknown> }
+    | { readonly kind: "default"; readonly source: TypeModel<unknown>; readonly value: unknown }
+    | { readonly kind: "coerce"; readonly target: TypeModel<unknown> };
+
+/**
+ * `number`の構造
+ * <br>`int()`、`within()`、`multipleOf()`による条件を含みます。
+ */
+export interface NumberModelStructure {
+    readonly kind: "number";
 
     /**
-     * 値が`NaN`でないことを実行時の検査において追加で要求するインスタンスを新しく生成します。
-     * @returns ランタイム条件付きインスタンス
+     * 整数のみを許容するか
      */
-    public nonNaN(): NumberModel {
-        const that = this;
+    readonly int: boolean;
 
-        return new (class extends NumberModel {
-            public override test(x: unknown): x is number {
-                return that.test(x) && !Number.isNaN(x);
-            }
-        })();
-    }
+    /**
+     * 下限 (含む、なければ`-Infinity`)
+     */
+    readonly min: number;
 
     /**
-     * 値が整数であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
-     * @returns ランタイム条件付きインスタンス
+     * 上限 (含む、なければ`Infinity`)
      */
-    public int(): NumberModel {
-        const that = this;
+    readonly max: number;
 
-        return new (class extends NumberModel {
-            public override test(x: unknown): x is number {
-                return that.test(x) && Number.isInteger(x);
-            }
-        })();
-    }
+    /**
+     * 値が倍数であることを要求される数
+     */
+    readonly multipleOf?: number;
+}
 
-    public override toString(): string {
-        return "number";
-    }
+/**
+ * `TypeModel`の種類
+ */
+export type TypeModelKind = TypeModelStructure["kind"];
 
-    public static readonly INSTANCE: NumberModel = new this();
-}
+/**
+ * パスを伴う検査を行うメソッドのキー
+ */
+const SYMBOL_FOR_INSPECTION = Symbol();
 
 /**
- * @deprecated
+ * パスを伴うJSON Schemaへの変換を行うメソッドのキー
  */
-class IntModel extends NumberModel {
-    public override test(x: unknown): x is number {
-        return super.test(x) && Number.isInteger(x);
-    }
+const SYMBOL_FOR_JSON_SCHEMA = Symbol();
 
+/**
+ * 子要素の型以外に課された実行時の条件を判定するメソッドのキー
+ */
+const SYMBOL_FOR_CONDITION = Symbol();
+
+/**
+ * 一回の検査の状態
+ * <br>検査の起点で生成され、子要素の検査にそのまま渡されます。
+ */
+interface InspectionContext {
     /**
-     * 値が`NaN`でないことを実行時の検査において追加で要求するインスタンスを新しく生成します。
-     * @returns ランタイム条件付きインスタンス
+     * 偽であれば値を捨てる検査(`test()`や合併型の要素の選択など)
+     * <br>このとき、`promiseOf()`は解決された値を検査する`Promise`を生成せず、受け取った`Promise`をそのまま返します。
      */
-    public override nonNaN(): IntModel {
-        const that = this;
+    readonly convert: boolean;
 
-        return new (class extends IntModel {
-            public override test(x: unknown): x is number {
-                return that.test(x) && !Number.isNaN(x);
-            }
-        })();
-    }
+    /**
+     * この検査の中で`promiseOf()`が生成した`Promise`
+     * <br>検査が失敗して値が捨てられたとき、それらの拒否が未処理にならないようにします。
+     */
+    readonly promises: Promise<unknown>[];
+}
 
-    public override toString(): string {
-        return "number(int)"
+/**
+ * 新しい検査の状態を作って`model`で`x`を検査します。
+ * @param convert 偽であれば値の変換を伴わない検査とし、成功時の値は変換されていない場合がある
+ */
+function inspect<O>(model: TypeModel<unknown, O>, x: unknown, path: string, convert: boolean): ValidationResult<O> {
+    const context: InspectionContext = { convert, promises: [] };
+    const result = model[SYMBOL_FOR_INSPECTION](x, path, context);
+
+    if (!result.success) {
+        discard(context);
     }
 
-    public static override readonly INSTANCE: IntModel = new this();
+    return result;
 }
 
-class BigIntModel extends PrimitiveModel<bigint> {
-    public override test(x: unknown): x is bigint {
-        return typeof x === "bigint";
-    }
-
-    public override toString(): string {
-        return "bigint"
+/**
+ * 値が捨てられた検査で`promiseOf()`が生成した`Promise`の拒否が未処理にならないようにします。
+ */
+function discard(context: InspectionContext): void {
+    for (const promise of context.promises) {
+        promise.catch(() => {});
     }
-
-    public static readonly INSTANCE: BigIntModel = new this();
 }
 
-interface LengthRange {
-    readonly min?: number;
+/**
+ * `T`型の型構造を表現する抽象クラス
+ * <br>`O`は`parse()`による変換後の型で、値を変換しない型では`T`と同一
+ */
+export abstract class TypeModel<T, O = T> {
+    public constructor() {}
 
-    readonly max?: number;
-}
+    /**
+     * オブジェクトが`T`型であるかを判定します。
+     * <br>必要に応じて追加のチェックも行う場合があります。
+     * @param x 検査するオブジェクト
+     */
+    public abstract test(x: unknown): x is T;
 
-class StringModel extends PrimitiveModel<string> {
-    public override test(x: unknown): x is string {
-        return typeof x === "string";
+    /**
+     * オブジェクトが`T`型であるかを検査し、一致しなかった箇所を全て含む結果を返します。
+     * <br>必要に応じて追加のチェックも行う場合があります。
+     * @param x 検査するオブジェクト
+     * @returns 検査結果 (成功時の値は`parse()`と同じく変換後の値)
+     */
+    public validate(x: unknown): ValidationResult<O> {
+        return inspect(this, x, "", true);
     }
 
     /**
-     * 文字列長が指定の範囲内であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
-     * @returns ランタイム条件付きインスタンス
+     * オブジェクトが`T`型であればそのまま返し、そうでなければ例外を投げます。
+     * <br>必要に応じて追加のチェックも行う場合があります。
+     * <br>値の変換は行いません。
+     * @param x 検査するオブジェクト
      * @throws `TypeSentryError`
      */
-    public withLength(range: LengthRange): StringModel {
-        const min = range.min === undefined ? 0 : range.min;
-        const max = range.max === undefined ? Infinity : range.max;
-
-        if (min > max || min < 0) {
-            throw new TypeSentryError(`無効な範囲です: ${min}～${max}`);
+    public cast(x: unknown): T {
+        if (this.test(x)) {
+            return x;
         }
 
-        const that = this;
-
-        return new (class extends StringModel {
-            public override test(x: unknown): x is string {
-                return that.test(x) && (min <= x.length && x.length <= max);
-            }
-        })();
+        const result = inspect(this, x, "", false);
+        throw castErrorOf(this, x, result.success ? [issueOf(this, x, "")] : result.issues);
     }
 
     /**
-     * 文字列の形式が指定の正規表現を含むものであることを実行時の検査において追加で要求するインスタンスを新しく生成します。
-     * @returns ランタイム条件付きインスタンス
+     * オブジェクトを検査し、変換後の`O`型の値を返します。失敗すれば例外を投げます。
+     * <br>`structOf()`や`arrayOf()`などは子要素を変換した新しいオブジェクトを返します。
+     * @param x 検査するオブジェクト
+     * @throws `TypeSentryError`
      */
-    public withPattern(pattern: RegExp): StringModel {
-        const that = this;
+    public parse(x: unknown): O {
+        const result = this.validate(x);
 
-        return new (class extends StringModel {
-            public override test(x: unknown): x is string {
-                return that.test(x) && new RegExp(pattern).test(x);
-            }
-        })();
+        if (result.success) {
+            return result.value;
+        }
+        else {
+            throw castErrorOf(this, x, result.issues);
+        }
     }
 
-    public override toString(): string {
-        return "string";
+    /**
+     * 検査に成功した値を変換する関数を追加したインスタンスを新しく生成します。
+     * @param callbackFn 変換関数
+     * @returns 変換付きインスタンス
+     */
+    public transform<P>(callbackFn: (value: O) => P): TransformModel<T, P> {
+        return new TransformModel(this, callbackFn as (value: unknown) => P);
     }
 
-    public static readonly INSTANCE: StringModel = new this();
-}
+    /**
+     * 変換後の値が条件を満たすことを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * <br>`predicate`が型ガードであれば、変換後の型はそれが示す型に絞り込まれます。
+     * @param predicate 条件
+     * @param message 条件を満たさなかったときの`ValidationIssue.message`
+     * @returns ランタイム条件付きインスタンス
+     */
+    public refine<P extends O>(predicate: (value: O) => value is P, message: string): RefinedModel<T, P>;
 
-class NullModel extends PrimitiveModel<null> {
-    public override test(x: unknown): x is null {
-        return x === null;
-    }
+    public refine(predicate: (value: O) => boolean, message: string): RefinedModel<T, O>;
 
-    public override toString(): string {
-        return "null";
+    public refine(predicate: (value: O) => boolean, message: string): RefinedModel<T, O> {
+        return new RefinedModel(this, predicate as (value: unknown) => boolean, message);
     }
 
-    public static readonly INSTANCE: NullModel = new this();
-}
-
-class UndefinedModel extends PrimitiveModel<undefined> {
-    public override test(x: unknown): x is undefined {
-        return x === undefined;
+    /**
+     * 変換後の値をさらに別の`TypeModel`で検査・変換するインスタンスを新しく生成します。
+     * @param target 変換後の値を受け取る`TypeModel`
+     * @returns 連結されたインスタンス
+     */
+    public pipe<U, P>(target: TypeModel<U, P>): PipeModel<T, P> {
+        return new PipeModel(this, target);
     }
 
-    public override toString(): string {
-        return "undefined";
+    /**
+     * 値が`undefined`のとき(`structOf()`ではキーが存在しないときも)に代わりの値を返すインスタンスを新しく生成します。
+     * @param value 代わりの値
+     * @returns デフォルト値付きインスタンス
+     */
+    public default(value: O): DefaultModel<T, O> {
+        return new DefaultModel(this, value);
     }
 
-    public static readonly INSTANCE: UndefinedModel = new this();
-}
+    /**
+     * この型をJSON Schema (draft 2020-12) に変換します。
+     * @returns JSON Schema
+     * @throws `TypeSentryError` JSONで表現できない型が含まれるとき (`issues`にその全ての位置を持つ)
+     */
+    public toJSONSchema(): JSONSchemaObject {
+        const unsupported: ValidationIssue[] = [];
+        const schema = this[SYMBOL_FOR_JSON_SCHEMA]("", unsupported);
+
+        if (unsupported.length > 0) {
+            throw new TypeSentryError(
+                `JSON Schemaへの変換に失敗しました: JSONで表現できない型が含まれています`
+                + unsupported.map(issue => `\n    at '${issue.path}': ${issue.expected}`).join(""),
+                unsupported
+            );
+        }
 
-class AnyModel extends TypeModel<any> {
+        return {
+            $schema: JSON_SCHEMA_DIALECT,
+            ...(typeof schema === "boolean" ? (schema ? {} : { not: {} }) : schema)
+        };
+    }
+
+    /**
+     * このインスタンスの文字列表現を返します。
+     */
+    public abstract toString(): string;
+
+    /**
+     * この型の種類と子要素の型を返します。
+     * <br>実行時の追加の条件は数値の範囲など一部(`NumberModelStructure`)を除いて含まれません。`TypeSentry`の外で定義された型は`"custom"`になります。
+     * @returns 型の構造
+     */
+    public getStructure(): TypeModelStructure {
+        return { kind: "custom" };
+    }
+
+    /**
+     * この型の種類 (`getStructure().kind`と同じ)
+     */
+    public get kind(): TypeModelKind {
+        return this.getStructure().kind;
+    }
+
+    /**
+     * `path`の位置のJSON Schemaを生成します。
+     * <br>JSONで表現できない型は`unsupported`に自身を追加し、`false`を返します。
+     * @param path 生成されるスキーマにおけるJSON Pointer形式のパス
+     * @param unsupported JSONで表現できない型の一覧
+     * @returns JSON Schema
+     */
+    public [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        unsupported.push({ path, expected: this.toString(), actual: this, message: "JSONで表現できない型です" });
+        return false;
+    }
+
+    /**
+     * `path`の位置にあるオブジェクトを検査します。
+     * <br>子要素を持つ型はこれをオーバーライドし、子要素のパスを伴って再帰的に検査します。
+     * @param x 検査するオブジェクト
+     * @param path JSON Pointer形式のパス
+     * @param _context 検査の状態 (子要素の検査にはそのまま渡す)
+     * @returns 検査結果
+     */
+    public [SYMBOL_FOR_INSPECTION](x: unknown, path: string, _context: InspectionContext): ValidationResult<O> {
+        if (this.test(x)) {
+            return { success: true, value: x as unknown as O };
+        }
+        else {
+            return { success: false, issues: [issueOf(this, x, path)] };
+        }
+    }
+
+    /**
+     * 子要素の型以外に課された実行時の条件 (`withLength()`など) を判定します。
+     * <br>子要素を持つ型は、子要素の検査結果とこの判定のみで成否を決め、子要素を検査し直しません。
+     * @param _x 検査するオブジェクト (子要素は全て一致している)
+     * @param _value 子要素を変換して組み立て直した値
+     * @returns 条件を満たせば真
+     */
+    public [SYMBOL_FOR_CONDITION](_x: unknown, _value: unknown): boolean {
+        return true;
+    }
+}
+
+/**
+ * `TypeModel`が表現する型を取り出す型
+ */
+export type Infer<M extends TypeModel<unknown>> = M extends TypeModel<infer T, unknown> ? T : never;
+
+/**
+ * `TypeModel`の`parse()`が返す変換後の型を取り出す型
+ */
+export type InferOutput<M extends TypeModel<unknown>> = M extends TypeModel<unknown, infer O> ? O : never;
+
+/**
+ * `toJSONSchema()`が出力するスキーマの`$schema`
+ */
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * `cast()`や`parse()`が投げる例外を生成します。
+ */
+function castErrorOf(model: TypeModel<unknown>, x: unknown, issues: readonly ValidationIssue[]): TypeSentryError {
+    return new TypeSentryError(
+        `値のキャストに失敗しました: '${describe(x)}'の型は期待された型(${model.toString()})に一致しません` + issueLinesOf(issues),
+        issues
+    );
+}
+
+/**
+ * 例外のメッセージに付け加える、失敗の位置の一覧を返します。
+ */
+function issueLinesOf(issues: readonly ValidationIssue[]): string {
+    return issues.map(issue => `\n    at '${issue.path}': ${issue.message} (expected: ${issue.expected}, actual: ${describe(issue.actual)})`).join("");
+}
+
+/**
+ * 型の不一致を表現する`ValidationIssue`を生成します。
+ */
+function issueOf(model: TypeModel<unknown>, x: unknown, path: string, message: string = "値の型が一致しません"): ValidationIssue {
+    return { path, expected: model.toString(), actual: x, message };
+}
+
+/**
+ * `path`に`key`を連結した子要素のパスを返します。
+ */
+function childPathOf(path: string, key: string | number | symbol): string {
+    return path + "/" + String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * 子要素の検査結果をまとめ、子要素に問題がなくとも`model`自身の追加の条件に一致しなければ失敗とします。
+ * @param value 子要素を変換して組み立て直した値
+ */
+function settle<O>(model: TypeModel<unknown, O>, x: unknown, value: unknown, path: string, issues: ValidationIssue[]): ValidationResult<O> {
+    if (issues.length > 0) {
+        return { success: false, issues };
+    }
+    else if (model[SYMBOL_FOR_CONDITION](x, value)) {
+        return { success: true, value: value as O };
+    }
+    else {
+        return { success: false, issues: [issueOf(model, x, path)] };
+    }
+}
+
+/**
+ * 型の文字列表現に実行時の条件を書き加えます。
+ * <br>既に条件が書かれていれば (`number(int)`など) 同じ括弧の中に続けます。
+ */
+function constrainedStringOf(string: string, constraint: string): string {
+    if (string.endsWith(")")) {
+        let depth = 0;
+
+        for (let i = string.length - 1; i >= 0; i--) {
+            if (string.charAt(i) === ")") depth++;
+            else if (string.charAt(i) === "(" && --depth === 0) {
+                // 先頭や演算子の直後の括弧はグループ化なので条件ではない
+                if (/[\w\]>}]/.test(string.charAt(i - 1))) {
+                    return string.slice(0, -1) + ", " + constraint + ")";
+                }
+
+                break;
+            }
+        }
+    }
+
+    return string + "(" + constraint + ")";
+}
+
+/**
+ * 範囲をMinecraftの範囲指定と同じ`min..max`形式で表します。
+ */
+function rangeStringOf(min: number | bigint | undefined, max: number | bigint | undefined): string {
+    if (min !== undefined && min === max) return String(min);
+    else return (min === undefined ? "" : String(min)) + ".." + (max === undefined ? "" : String(max));
+}
+
+/**
+ * JSON Schemaの`uniqueItems`と同じく、配列とプレーンなオブジェクトを構造で比較します。
+ * <br>それ以外の値は SameValueZero で比較します。
+ */
+function structurallyEquals(a: unknown, b: unknown): boolean {
+    if (a === b || (Number.isNaN(a) && Number.isNaN(b))) return true;
+    else if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((value, index) => structurallyEquals(value, b[index]));
+    }
+    else if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every(key => Object.hasOwn(b, key) && structurallyEquals(a[key], b[key]));
+    }
+    else return false;
+}
+
+function isPlainObject(x: unknown): x is Record<string, unknown> {
+    if (typeof x !== "object" || x === null) return false;
+
+    const prototype: unknown = Object.getPrototypeOf(x);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * 浮動小数点数の誤差を許容して、`x`が`divisor`の倍数であるかを返します。
+ */
+function isMultipleOf(x: number, divisor: number): boolean {
+    const quotient = x / divisor;
+    return Math.abs(quotient - Math.round(quotient)) <= Number.EPSILON * Math.max(1, Math.abs(quotient));
+}
+
+/**
+ * 追加の条件を表すキーワードをスキーマに付け加えます。
+ */
+function refineSchema(schema: JSONSchema, keywords: JSONSchemaObject): JSONSchema {
+    if (schema === false) return false;
+    else if (schema === true) return keywords;
+    else return { ...schema, ...keywords };
+}
+
+/**
+ * エラーメッセージ用の値の文字列表現を返します。
+ */
+function describe(x: unknown): string {
+    switch (typeof x) {
+        case "string": return "\"" + x + "\"";
+        case "bigint": return x + "n";
+        case "symbol": return x.toString();
+        case "function": return "function " + x.name;
+        case "object": {
+            if (x === null) return "null";
+
+            try {
+                return JSON.stringify(x) ?? String(x);
+            }
+            catch {
+                return String(x);
+            }
+        }
+        default: return String(x);
+    }
+}
+
+abstract class PrimitiveModel<T extends boolean | number | bigint | string | symbol | null | undefined> extends TypeModel<T> {
+    protected constructor() {
+        super();
+    }
+}
+
+class BooleanModel extends PrimitiveModel<boolean> {
+    public override test(x: unknown): x is boolean {
+        return typeof x === "boolean";
+    }
+
+    /**
+     * `"true"`, `"false"`, `"1"`, `"0"`, `1`, `0`を真偽値に変換してから検査するインスタンスを新しく生成します。
+     * @returns 変換付きインスタンス
+     */
+    public coerce(): CoercedModel<boolean | number | string, boolean> {
+        return new CoercedModel(this, x => {
+            switch (x) {
+                case "true":
+                case "1":
+                case 1:
+                    return true;
+                case "false":
+                case "0":
+                case 0:
+                    return false;
+                default:
+                    return x;
+            }
+        });
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](_path: string, _unsupported: ValidationIssue[]): JSONSchema {
+        return { type: "boolean" };
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "boolean" };
+    }
+
+    public override toString(): string {
+        return "boolean";
+    }
+
+    public static readonly INSTANCE: BooleanModel = new this();
+}
+
+class NumberModel extends PrimitiveModel<number> {
+    public override test(x: unknown): x is number {
+        return typeof x === "number";
+    }
+
+    /**
+     * 値が`NaN`でないことを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public nonNaN(): NumberModel {
+        const that = this;
+
+        return new (class extends NumberModel {
+            public override test(x: unknown): x is number {
+                return that.test(x) && !Number.isNaN(x);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
+            }
+
+            public override getStructure(): NumberModelStructure {
+                return that.getStructure();
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "nonNaN");
+            }
+        })();
+    }
+
+    /**
+     * 値が整数であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public int(): NumberModel {
+        const that = this;
+
+        return new (class extends NumberModel {
+            public override test(x: unknown): x is number {
+                return that.test(x) && Number.isInteger(x);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return refineSchema(that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), { type: "integer" });
+            }
+
+            public override getStructure(): NumberModelStructure {
+                return { ...that.getStructure(), int: true };
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "int");
+            }
+        })();
+    }
+
+    /**
+     * 値が指定の範囲内であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * <br>`IntRange`を渡した場合は値が整数であることも要求します。
+     * @param range 範囲 (`Range`, `FiniteRange`, `IntRange`)
+     * @returns ランタイム条件付きインスタンス
+     */
+    public within(range: Range): NumberModel {
+        const that = this;
+        const isIntRange = range instanceof IntRange;
+        const min = range.getMin();
+        const max = range.getMax();
+
+        return new (class extends NumberModel {
+            public override test(x: unknown): x is number {
+                return that.test(x) && (!isIntRange || Number.isSafeInteger(x)) && range.within(x);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return refineSchema(that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), {
+                    ...(isIntRange ? { type: "integer" } : {}),
+                    ...(min === undefined ? {} : { minimum: min }),
+                    ...(max === undefined ? {} : { maximum: max })
+                });
+            }
+
+            public override getStructure(): NumberModelStructure {
+                const structure = that.getStructure();
+
+                return {
+                    ...structure,
+                    int: structure.int || isIntRange,
+                    min: Math.max(structure.min, min ?? -Infinity),
+                    max: Math.min(structure.max, max ?? Infinity)
+                };
+            }
+
+            public override toString(): string {
+                // 既に整数のみを許容する型であれば`int`を重ねて書かない
+                const string = (isIntRange && !that.getStructure().int) ? constrainedStringOf(that.toString(), "int") : that.toString();
+                return constrainedStringOf(string, rangeStringOf(min, max));
+            }
+        })();
+    }
+
+    /**
+     * 値が有限であること(`NaN`でも`Infinity`でもないこと)を実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public finite(): NumberModel {
+        const that = this;
+
+        return new (class extends NumberModel {
+            public override test(x: unknown): x is number {
+                return that.test(x) && Number.isFinite(x);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
+            }
+
+            public override getStructure(): NumberModelStructure {
+                return that.getStructure();
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "finite");
+            }
+        })();
+    }
+
+    /**
+     * 値が0より大きいことを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public positive(): NumberModel {
+        const that = this;
+
+        return new (class extends NumberModel {
+            public override test(x: unknown): x is number {
+                return that.test(x) && x > 0;
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return refineSchema(that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), { exclusiveMinimum: 0 });
+            }
+
+            public override getStructure(): NumberModelStructure {
+                return that.getStructure();
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "positive");
+            }
+        })();
+    }
+
+    /**
+     * 値が`divisor`の倍数であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * <br>浮動小数点数の誤差は許容されます。
+     * @param divisor 0より大きい有限の数
+     * @returns ランタイム条件付きインスタンス
+     * @throws `TypeSentryError`
+     */
+    public multipleOf(divisor: number): NumberModel {
+        if (!(Number.isFinite(divisor) && divisor > 0)) {
+            throw new TypeSentryError(`無効な除数です: ${divisor}`);
+        }
+
+        const that = this;
+
+        return new (class extends NumberModel {
+            public override test(x: unknown): x is number {
+                return that.test(x) && Number.isFinite(x) && isMultipleOf(x, divisor);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return refineSchema(that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), { multipleOf: divisor });
+            }
+
+            public override getStructure(): NumberModelStructure {
+                return { ...that.getStructure(), multipleOf: divisor };
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "multipleOf: " + divisor);
+            }
+        })();
+    }
+
+    /**
+     * 数値として解釈できる文字列、`bigint`、真偽値を数値に変換してから検査するインスタンスを新しく生成します。
+     * <br>変換後の値にもこのインスタンスの条件(`int()`など)が適用されます。
+     * @returns 変換付きインスタンス
+     */
+    public coerce(): CoercedModel<number | string | bigint | boolean, number> {
+        return new CoercedModel(this, x => {
+            switch (typeof x) {
+                case "string":
+                    return (x.trim().length > 0 && !Number.isNaN(Number(x))) ? Number(x) : x;
+                case "bigint":
+                    return Number(x);
+                case "boolean":
+                    return x ? 1 : 0;
+                default:
+                    return x;
+            }
+        });
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](_path: string, _unsupported: ValidationIssue[]): JSONSchema {
+        return { type: "number" };
+    }
+
+    public override getStructure(): NumberModelStructure {
+        return { kind: "number", int: false, min: -Infinity, max: Infinity };
+    }
+
+    public override toString(): string {
+        return "number";
+    }
+
+    public static readonly INSTANCE: NumberModel = new this();
+}
+
+/**
+ * @deprecated
+ */
+class IntModel extends NumberModel {
+    public override test(x: unknown): x is number {
+        return super.test(x) && Number.isInteger(x);
+    }
+
+    /**
+     * 値が`NaN`でないことを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public override nonNaN(): IntModel {
+        const that = this;
+
+        return new (class extends IntModel {
+            public override test(x: unknown): x is number {
+                return that.test(x) && !Number.isNaN(x);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "nonNaN");
+            }
+        })();
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](_path: string, _unsupported: ValidationIssue[]): JSONSchema {
+        return { type: "integer" };
+    }
+
+    public override getStructure(): NumberModelStructure {
+        return { ...super.getStructure(), int: true };
+    }
+
+    public override toString(): string {
+        return "number(int)"
+    }
+
+    public static override readonly INSTANCE: IntModel = new this();
+}
+
+class BigIntModel extends PrimitiveModel<bigint> {
+    public override test(x: unknown): x is bigint {
+        return typeof x === "bigint";
+    }
+
+    /**
+     * 整数の数値、整数表記の文字列、真偽値を`bigint`に変換してから検査するインスタンスを新しく生成します。
+     * @returns 変換付きインスタンス
+     */
+    public coerce(): CoercedModel<bigint | number | string | boolean, bigint> {
+        return new CoercedModel(this, x => {
+            switch (typeof x) {
+                case "number":
+                    return Number.isInteger(x) ? BigInt(x) : x;
+                case "string":
+                    return /^\s*[+-]?\d+\s*$/.test(x) ? BigInt(x.trim()) : x;
+                case "boolean":
+                    return x ? 1n : 0n;
+                default:
+                    return x;
+            }
+        });
+    }
+
+    /**
+     * 値が指定の範囲内であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @param range 範囲
+     * @returns ランタイム条件付きインスタンス
+     */
+    public within(range: BigIntRange): BigIntModel {
+        const that = this;
+
+        return new (class extends BigIntModel {
+            public override test(x: unknown): x is bigint {
+                return that.test(x) && range.within(x);
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), rangeStringOf(range.getMin(), range.getMax()));
+            }
+        })();
+    }
+
+    /**
+     * 値が0より大きいことを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public positive(): BigIntModel {
+        const that = this;
+
+        return new (class extends BigIntModel {
+            public override test(x: unknown): x is bigint {
+                return that.test(x) && x > 0n;
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "positive");
+            }
+        })();
+    }
+
+    /**
+     * 値が`divisor`の倍数であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @param divisor 0より大きい数
+     * @returns ランタイム条件付きインスタンス
+     * @throws `TypeSentryError`
+     */
+    public multipleOf(divisor: bigint): BigIntModel {
+        if (divisor <= 0n) {
+            throw new TypeSentryError(`無効な除数です: ${divisor}`);
+        }
+
+        const that = this;
+
+        return new (class extends BigIntModel {
+            public override test(x: unknown): x is bigint {
+                return that.test(x) && x % divisor === 0n;
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "multipleOf: " + divisor);
+            }
+        })();
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "bigint" };
+    }
+
+    public override toString(): string {
+        return "bigint"
+    }
+
+    public static readonly INSTANCE: BigIntModel = new this();
+}
+
+interface LengthRange {
+    readonly min?: number;
+
+    readonly max?: number;
+}
+
+class StringModel extends PrimitiveModel<string> {
+    public override test(x: unknown): x is string {
+        return typeof x === "string";
+    }
+
+    /**
+     * 文字列長が指定の範囲内であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     * @throws `TypeSentryError`
+     */
+    public withLength(range: LengthRange): StringModel {
+        const min = range.min === undefined ? 0 : range.min;
+        const max = range.max === undefined ? Infinity : range.max;
+
+        if (min > max || min < 0) {
+            throw new TypeSentryError(`無効な範囲です: ${min}～${max}`);
+        }
+
+        const that = this;
+
+        return new (class extends StringModel {
+            public override test(x: unknown): x is string {
+                return that.test(x) && (min <= x.length && x.length <= max);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return refineSchema(that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), max === Infinity ? { minLength: min } : { minLength: min, maxLength: max });
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "length: " + rangeStringOf(min, max === Infinity ? undefined : max));
+            }
+        })();
+    }
+
+    /**
+     * 文字列の形式が指定の正規表現を含むものであることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public withPattern(pattern: RegExp): StringModel {
+        const that = this;
+
+        return new (class extends StringModel {
+            public override test(x: unknown): x is string {
+                return that.test(x) && new RegExp(pattern).test(x);
+            }
+
+            /**
+             * JSON Schemaの`pattern`は一つしか持てないため、既にあれば`allOf`で重ねます。
+             */
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                const schema = that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
+
+                if (typeof schema === "object" && schema.pattern !== undefined) {
+                    return { allOf: [schema, { pattern: pattern.source }] };
+                }
+                else {
+                    return refineSchema(schema, { pattern: pattern.source });
+                }
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "pattern: " + pattern);
+            }
+        })();
+    }
+
+    /**
+     * 数値、`bigint`、真偽値を文字列に変換してから検査するインスタンスを新しく生成します。
+     * @returns 変換付きインスタンス
+     */
+    public coerce(): CoercedModel<string | number | bigint | boolean, string> {
+        return new CoercedModel(this, x => {
+            switch (typeof x) {
+                case "number":
+                case "bigint":
+                case "boolean":
+                    return String(x);
+                default:
+                    return x;
+            }
+        });
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](_path: string, _unsupported: ValidationIssue[]): JSONSchema {
+        return { type: "string" };
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "string" };
+    }
+
+    public override toString(): string {
+        return "string";
+    }
+
+    public static readonly INSTANCE: StringModel = new this();
+}
+
+class NullModel extends PrimitiveModel<null> {
+    public override test(x: unknown): x is null {
+        return x === null;
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](_path: string, _unsupported: ValidationIssue[]): JSONSchema {
+        return { type: "null" };
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "null" };
+    }
+
+    public override toString(): string {
+        return "null";
+    }
+
+    public static readonly INSTANCE: NullModel = new this();
+}
+
+class UndefinedModel extends PrimitiveModel<undefined> {
+    public override test(x: unknown): x is undefined {
+        return x === undefined;
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "undefined" };
+    }
+
+    public override toString(): string {
+        return "undefined";
+    }
+
+    public static readonly INSTANCE: UndefinedModel = new this();
+}
+
+class AnyModel extends TypeModel<any> {
+    private constructor() {
+        super();
+    }
+
+    public test(_: unknown): _ is any {
+        return true;
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](_path: string, _unsupported: ValidationIssue[]): JSONSchema {
+        return true;
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "any" };
+    }
+
+    public override toString(): string {
+        return "any";
+    }
+
+    public static readonly INSTANCE: AnyModel = new this();
+}
+
+class NeverModel extends TypeModel<never> {
+    public test(_: unknown): _ is never {
+        return false;
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](_path: string, _unsupported: ValidationIssue[]): JSONSchema {
+        return false;
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "never" };
+    }
+
+    public override toString(): string {
+        return "never";
+    }
+
+    public static readonly INSTANCE: NeverModel = new this();
+}
+
+class UnknownModel extends TypeModel<unknown> {
+    public override test(_: unknown): _ is unknown {
+        return true;
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](_path: string, _unsupported: ValidationIssue[]): JSONSchema {
+        return true;
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "unknown" };
+    }
+
+    public override toString(): string {
+        return "unknown";
+    }
+
+    public static readonly INSTANCE: UnknownModel = new this();
+}
+
+class VoidModel extends TypeModel<void> {
+    public test(x: unknown): x is void {
+        return x === undefined;
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "void" };
+    }
+
+    public override toString(): string {
+        return "void";
+    }
+
+    public static readonly INSTANCE: VoidModel = new this();
+}
+
+type ExtractTypeInObjectValue<T> = {
+    [K in keyof T]: T[K] extends TypeModel<infer U, unknown> ? U : never;
+};
+
+/**
+ * @deprecated
+ */
+class ObjectModel<T> extends TypeModel<T> {
+    private readonly object: T;
+
+    protected constructor(object: T) {
+        super();
+        this.object = object;
+    }
+
+    public test(x: unknown): x is T {
+        if (typeof x !== "object") return false;
+        if (x === null) return false;
+
+        for (const [key, type] of Object.entries(this.object as Record<string | number | symbol, TypeModel<unknown>>)) {
+            const value: unknown = (x as Record<string | number | symbol, unknown>)[key];
+            if (!type.test(value)) return false;
+        }
+
+        return true;
+    }
+
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<T> {
+        if (typeof x !== "object" || x === null) return super[SYMBOL_FOR_INSPECTION](x, path, context);
+
+        const issues: ValidationIssue[] = [];
+
+        for (const [key, type] of Object.entries(this.object as Record<string | number | symbol, TypeModel<unknown>>)) {
+            const result = type[SYMBOL_FOR_INSPECTION]((x as Record<string | number | symbol, unknown>)[key], childPathOf(path, key), context);
+            if (!result.success) issues.push(...result.issues);
+        }
+
+        return settle(this, x, x, path, issues);
+    }
+
+    /**
+     * オブジェクトが過不足のない数のキーを持つ連想配列であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public exact(): ObjectModel<T> {
+        const that = this;
+
+        const isExact = (x: unknown) => Object.keys(x as object).length === Object.keys(this.object as object).length;
+
+        return new (class extends ObjectModel<T> {
+            public override test(x: unknown): x is T {
+                return that.test(x) && isExact(x);
+            }
+
+            public override [SYMBOL_FOR_CONDITION](x: unknown, value: unknown): boolean {
+                return that[SYMBOL_FOR_CONDITION](x, value) && isExact(x);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return refineSchema(that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), { additionalProperties: false });
+            }
+        })(this.object);
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        const properties: Record<string, JSONSchema> = {};
+
+        for (const [key, model] of Object.entries(this.object as Record<string | number | symbol, TypeModel<unknown>>)) {
+            properties[key] = model[SYMBOL_FOR_JSON_SCHEMA](childPathOf(childPathOf(path, "properties"), key), unsupported);
+        }
+
+        return { type: "object", properties, required: Object.keys(properties) };
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "object", properties: { ...this.object as Record<string, TypeModel<unknown>> } };
+    }
+
+    public override toString(): string {
+        let string = "{";
+
+        let first = true;
+        for (const [key, model] of Object.entries(this.object as Record<string | number | symbol, TypeModel<unknown>>)) {
+            if (!first) {
+                string += "; ";
+            }
+
+            let k: string = key;
+
+            if (key.includes(":")) {
+                k = "\"" + k + "\"";
+            }
+            else if (key.includes("\"")) {
+                k = k.replace(/"/g, "\\\"");
+            }
+
+            string += k;
+            string += ": ";
+            string += model.toString();
+
+            first = false;
+        }
+
+        string += "}";
+
+        return string;
+    }
+
+    public static newInstance<U extends Record<string | number | symbol, TypeModel<unknown>>>(object: U): ObjectModel<ExtractTypeInObjectValue<U>> {
+        return new this(object as ExtractTypeInObjectValue<U>);
+    }
+}
+
+class ArrayModel<T, O = T> extends TypeModel<T[], O[]> {
+    private readonly type: TypeModel<T, O>;
+
+    public constructor(type: TypeModel<T, O>) {
+        super();
+        this.type = type;
+    }
+
+    public test(x: unknown): x is T[] {
+        return Array.isArray(x)
+            && x.every(e => this.type.test(e));
+    }
+
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O[]> {
+        if (!Array.isArray(x)) return super[SYMBOL_FOR_INSPECTION](x, path, context);
+
+        const issues: ValidationIssue[] = [];
+        const value: O[] = [];
+
+        for (const [index, element] of x.entries()) {
+            const result = this.type[SYMBOL_FOR_INSPECTION](element, childPathOf(path, index), context);
+            if (result.success) value.push(result.value);
+            else issues.push(...result.issues);
+        }
+
+        return settle(this, x, value, path, issues);
+    }
+
+    /**
+     * 配列長が指定の範囲内であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     * @throws `TypeSentryError`
+     */
+    public withLength(range: LengthRange): ArrayModel<T, O> {
+        const min = range.min === undefined ? 0 : range.min;
+        const max = range.max === undefined ? Infinity : range.max;
+
+        if (min > max || min < 0) {
+            throw new TypeSentryError(`無効な範囲です: ${min}～${max}`);
+        }
+
+        const that = this;
+
+        const isWithin = (x: unknown) => min <= (x as unknown[]).length && (x as unknown[]).length <= max;
+
+        return new (class extends ArrayModel<T, O> {
+            public override test(x: unknown): x is T[] {
+                return that.test(x) && isWithin(x);
+            }
+
+            public override [SYMBOL_FOR_CONDITION](x: unknown, value: unknown): boolean {
+                return that[SYMBOL_FOR_CONDITION](x, value) && isWithin(x);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return refineSchema(that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), max === Infinity ? { minItems: min } : { minItems: min, maxItems: max });
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "length: " + rangeStringOf(min, max === Infinity ? undefined : max));
+            }
+        })(this.type);
+    }
+
+    /**
+     * 要素に重複がないことを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * <br>JSON Schemaの`uniqueItems`と同じく、配列とプレーンなオブジェクトの要素は構造が等しければ重複とみなされます。
+     * 要素の型が値を変換する場合は、変換後の要素を比較します。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public unique(): ArrayModel<T, O> {
+        const that = this;
+
+        return new (class extends ArrayModel<T, O> {
+            public override test(x: unknown): x is T[] {
+                // 変換後の要素を比較するため、子要素の検査を経る
+                return inspect(this, x, "", false).success;
+            }
+
+            public override [SYMBOL_FOR_CONDITION](x: unknown, value: unknown): boolean {
+                const array = value as unknown[];
+                return that[SYMBOL_FOR_CONDITION](x, value) && array.every((element, index) => array.findIndex(other => structurallyEquals(element, other)) === index);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return refineSchema(that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), { uniqueItems: true });
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "unique");
+            }
+        })(this.type);
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return { type: "array", items: this.type[SYMBOL_FOR_JSON_SCHEMA](childPathOf(path, "items"), unsupported) };
+    }
+
+    /**
+     * 配列の要素の型を表現する`TypeModel`を返します。
+     * @returns (配列要素)型の`TypeModel`インスタンス
+     */
+    public getModelOfElement(): TypeModel<T, O> {
+        return this.type;
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "array", element: this.type };
+    }
+
+    public override toString(): string {
+        return this.type.toString() + "[]";
+    }
+}
+
+/**
+ * @deprecated
+ */
+class FunctionModel extends TypeModel<Function> {
+    private constructor() {
+        super();
+    }
+
+    public test(x: unknown): x is Function {
+        return typeof x === "function";
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "anyFunction" };
+    }
+
+    public override toString(): string {
+        return "function";
+    }
+
+    public static readonly INSTANCE: FunctionModel = new this();
+}
+
+class SymbolModel extends TypeModel<symbol> {
     private constructor() {
         super();
     }
 
-    public test(_: unknown): _ is any {
-        return true;
+    public test(x: unknown): x is symbol {
+        return typeof x === "symbol";
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "symbol" };
+    }
+
+    public override toString(): string {
+        return "symbol";
+    }
+
+    public static readonly INSTANCE: SymbolModel = new this();
+}
+
+type ExtractTypes<U extends TypeModel<unknown>[]> = U[number] extends TypeModel<infer V, unknown> ? V : never;
+
+type ExtractOutputTypes<U extends TypeModel<unknown>[]> = U[number] extends TypeModel<unknown, infer V> ? V : never;
+
+class UnionModel<T, O = T> extends TypeModel<T, O> {
+    private readonly types: TypeModel<T, O>[];
+
+    private constructor(...types: TypeModel<unknown>[]) {
+        super();
+        this.types = types as TypeModel<T, O>[];
+    }
+
+    public override test(x: unknown): x is T {
+        return this.types.some(type => type.test(x));
+    }
+
+    /**
+     * いずれの型にも一致しなかった場合、最も一致に近かった型の失敗を返します。
+     * <br>ルートの時点で型が一致しなかった要素は除き、リテラルのプロパティ (タグなど) が多く一致した要素、より深い位置まで一致した要素、失敗の少ない要素の順に近いものとみなします。
+     * どの要素もルートの時点で一致しなかった場合は合併型そのものの失敗を返します。
+     */
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O> {
+        let closest: { readonly issues: readonly ValidationIssue[]; readonly closeness: readonly number[] } | undefined;
+
+        for (const type of this.types) {
+            // 選ばれなかった要素が生成したPromiseだけを捨てられるよう、要素ごとに状態を分ける
+            const branch: InspectionContext = { convert: context.convert, promises: [] };
+            const result = type[SYMBOL_FOR_INSPECTION](x, path, branch);
+
+            if (result.success) {
+                context.promises.push(...branch.promises);
+                return result;
+            }
+
+            discard(branch);
+
+            if (result.issues.some(issue => issue.path === path)) continue;
+
+            const closeness = [
+                matchedLiteralCountOf(type, x),
+                Math.max(...result.issues.map(issue => issue.path.split("/").length)),
+                -result.issues.length
+            ];
+
+            if (closest === undefined || compareCloseness(closeness, closest.closeness) > 0) {
+                closest = { issues: result.issues, closeness };
+            }
+        }
+
+        if (closest === undefined) {
+            return { success: false, issues: [issueOf(this, x, path, "合併型のいずれの型にも一致しません")] };
+        }
+        else {
+            return { success: false, issues: closest.issues };
+        }
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return { anyOf: this.types.map((type, index) => type[SYMBOL_FOR_JSON_SCHEMA](childPathOf(childPathOf(path, "anyOf"), index), unsupported)) };
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "union", members: [...this.types] };
+    }
+
+    public override toString(): string {
+        return this.types.map(type => type.toString()).join(" | ");
+    }
+
+    /**
+     * 複数の`promiseOf()`は、解決された値の型の合併型を持つ一つの`promiseOf()`にまとめます。
+     * <br>`Promise`の要素は解決されるまでどれに一致するか判断できないためです。
+     */
+    public static newInstance<U extends TypeModel<unknown>[]>(...types: U): UnionModel<ExtractTypes<U>, ExtractOutputTypes<U>> {
+        const promises = types.filter(type => type instanceof PromiseModel);
+
+        if (promises.length < 2) {
+            return new this(...types);
+        }
+
+        const merged = PromiseModel.newInstance(UnionModel.newInstance(...promises.map(promise => promise.getModelOfResolvedValue())));
+
+        return new this(...types.flatMap(type => {
+            if (type === promises[0]) return [merged];
+            else if (type instanceof PromiseModel) return [];
+            else return [type];
+        }));
+    }
+}
+
+/**
+ * `x`のプロパティのうち、`model`がリテラル型で定義しているものに一致する数を返します。
+ */
+function matchedLiteralCountOf(model: TypeModel<unknown>, x: unknown): number {
+    const structure = model.getStructure();
+
+    if ((structure.kind !== "struct" && structure.kind !== "object") || typeof x !== "object" || x === null) {
+        return 0;
+    }
+
+    return Object.entries(structure.properties).filter(([key, property]) => {
+        const propertyStructure = property.getStructure();
+        return propertyStructure.kind === "literal" && (x as Record<string, unknown>)[key] === propertyStructure.value;
+    }).length;
+}
+
+/**
+ * 合併型の要素の近さを先頭の指標から順に比べます。
+ * @returns `a`がより近ければ正、`b`がより近ければ負、等しければ`0`
+ */
+function compareCloseness(a: readonly number[], b: readonly number[]): number {
+    for (const [index, value] of a.entries()) {
+        const other = b[index]!;
+        if (value !== other) return value - other;
+    }
+
+    return 0;
+}
+
+type UnionToIntersection<U> = (U extends unknown ? (k: U) => void : never) extends ((k: infer I) => void) ? I : never;
+
+type ExtractIntersectTypes<T extends TypeModel<unknown>[]> = UnionToIntersection<(T extends TypeModel<infer U, unknown>[] ? U[] : never)[number]>;
+
+class IntersectionModel<T> extends TypeModel<T> {
+    private readonly types: TypeModel<T>[];
+
+    private constructor(...types: TypeModel<unknown>[]) {
+        super();
+        this.types = types as TypeModel<T>[];
+    }
+
+    public override test(x: unknown): x is T {
+        return this.types.every(type => type.test(x));
+    }
+
+    /**
+     * 交差型は値を変換しないため、各要素を変換を伴わずに一度ずつ検査します。
+     */
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, _context: InspectionContext): ValidationResult<T> {
+        const issues: ValidationIssue[] = [];
+
+        for (const type of this.types) {
+            const result = inspect(type, x, path, false);
+            if (!result.success) issues.push(...result.issues);
+        }
+
+        return settle(this, x, x, path, issues);
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return { allOf: this.types.map((type, index) => type[SYMBOL_FOR_JSON_SCHEMA](childPathOf(childPathOf(path, "allOf"), index), unsupported)) };
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "intersection", members: [...this.types] };
+    }
+
+    public override toString(): string {
+        return this.types.map(type => type.toString()).join(" & ");
+    }
+
+    public static newInstance<U extends TypeModel<unknown>[]>(...types: U): IntersectionModel<ExtractIntersectTypes<U>> {
+        return new this(...types);
+    }
+}
+
+class UndefindableModel<T, O = T> extends TypeModel<T | undefined, O | undefined> {
+    private readonly type: TypeModel<T, O>;
+
+    private constructor(type: TypeModel<T, O>) {
+        super();
+        this.type = type;
+    }
+
+    public override test(x: unknown): x is (T | undefined) {
+        return this.type.test(x)
+            || sentry.undefined.test(x);
+    }
+
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O | undefined> {
+        if (x === undefined) return { success: true, value: x };
+        else return this.type[SYMBOL_FOR_INSPECTION](x, path, context);
+    }
+
+    /**
+     * `undefindable`を解除し、もとの型の`TypeModel`を返します。
+     * @returns `undefindable`を解除した型を表現する`TypeModel`インスタンス
+     */
+    public unwrap(): TypeModel<T, O> {
+        return this.type;
+    }
+
+    /**
+     * JSONに`undefined`は存在しないため、元の型のスキーマを返します。
+     * <br>`structOf()`のプロパティであれば必須でないキーとして扱われます。
+     */
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return this.type[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "undefindable", inner: this.type };
+    }
+
+    public override toString(): string {
+        return this.type.toString() + " | undefined";
+    }
+
+    public static newInstance<U, V>(type: TypeModel<U, V>): UndefindableModel<U, V> {
+        return new this(type);
+    }
+}
+
+class NullableModel<T, O = T> extends TypeModel<T | null, O | null> {
+    private readonly type: TypeModel<T, O>;
+
+    private constructor(type: TypeModel<T, O>) {
+        super();
+        this.type = type;
+    }
+
+    public override test(x: unknown): x is (T | null) {
+        return this.type.test(x)
+            || sentry.null.test(x);
+    }
+
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O | null> {
+        if (x === null) return { success: true, value: x };
+        else return this.type[SYMBOL_FOR_INSPECTION](x, path, context);
+    }
+
+    /**
+     * `nullable`を解除し、もとの型の`TypeModel`を返します。
+     * @returns `nullable`を解除した型を表現する`TypeModel`インスタンス
+     */
+    public unwrap(): TypeModel<T, O> {
+        return this.type;
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return { anyOf: [this.type[SYMBOL_FOR_JSON_SCHEMA](childPathOf(childPathOf(path, "anyOf"), 0), unsupported), { type: "null" }] };
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "nullable", inner: this.type };
+    }
+
+    public override toString(): string {
+        return this.type.toString() + " | null";
+    }
+
+    public static newInstance<U, V>(type: TypeModel<U, V>): NullableModel<U, V> {
+        return new this(type);
+    }
+}
+
+class MapModel<K, V, KO = K, VO = V> extends TypeModel<Map<K, V>, Map<KO, VO>> {
+    private readonly keyType: TypeModel<K, KO>;
+
+    private readonly valueType: TypeModel<V, VO>;
+
+    public constructor(keyType: TypeModel<K, KO>, valueType: TypeModel<V, VO>) {
+        super();
+        this.keyType = keyType;
+        this.valueType = valueType;
+    }
+
+    public test(x: unknown): x is Map<K, V> {
+        if (!(x instanceof Map)) return false;
+        for (const [key, value] of x.entries()) {
+            if (!this.keyType.test(key)) return false;
+            if (!this.valueType.test(value)) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * キーの失敗も値の失敗もキーを文字列化したパスで報告します。
+     */
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<Map<KO, VO>> {
+        if (!(x instanceof Map)) return super[SYMBOL_FOR_INSPECTION](x, path, context);
+
+        const issues: ValidationIssue[] = [];
+        const map = new Map<KO, VO>();
+
+        for (const [key, value] of x.entries()) {
+            const keyPath = childPathOf(path, typeof key === "string" ? key : describe(key));
+
+            const keyResult = this.keyType[SYMBOL_FOR_INSPECTION](key, keyPath, context);
+            if (!keyResult.success) issues.push(...keyResult.issues);
+
+            const valueResult = this.valueType[SYMBOL_FOR_INSPECTION](value, keyPath, context);
+            if (!valueResult.success) issues.push(...valueResult.issues);
+
+            if (keyResult.success && valueResult.success) {
+                map.set(keyResult.value, valueResult.value);
+            }
+        }
+
+        return settle(this, x, map, path, issues);
+    }
+
+    /**
+     * `Map`のキーの型を表現する`TypeModel`を返します。
+     * @returns (キー)型の`TypeModel`インスタンス
+     */
+    public getModelOfKey(): TypeModel<K, KO> {
+        return this.keyType;
+    }
+
+    /**
+     * `Map`のキーの型を表現する`TypeModel`を返します。
+     * @returns (値)型の`TypeModel`インスタンス
+     */
+    public getModelOfValue(): TypeModel<V, VO> {
+        return this.valueType;
+    }
+
+    /**
+     * 要素数が指定の範囲内であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     * @throws `TypeSentryError`
+     */
+    public withSize(range: LengthRange): MapModel<K, V, KO, VO> {
+        const min = range.min === undefined ? 0 : range.min;
+        const max = range.max === undefined ? Infinity : range.max;
+
+        if (min > max || min < 0) {
+            throw new TypeSentryError(`無効な範囲です: ${min}～${max}`);
+        }
+
+        const that = this;
+
+        const isWithin = (x: unknown) => min <= (x as Map<unknown, unknown>).size && (x as Map<unknown, unknown>).size <= max;
+
+        return new (class extends MapModel<K, V, KO, VO> {
+            public override test(x: unknown): x is Map<K, V> {
+                return that.test(x) && isWithin(x);
+            }
+
+            public override [SYMBOL_FOR_CONDITION](x: unknown, value: unknown): boolean {
+                return that[SYMBOL_FOR_CONDITION](x, value) && isWithin(x);
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "size: " + rangeStringOf(min, max === Infinity ? undefined : max));
+            }
+        })(this.keyType, this.valueType);
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "map", key: this.keyType, value: this.valueType };
+    }
+
+    public override toString(): string {
+        return "Map<" + this.keyType.toString() + ", " + this.valueType.toString() + ">";
+    }
+}
+
+class SetModel<T, O = T> extends TypeModel<Set<T>, Set<O>> {
+    private readonly valueType: TypeModel<T, O>;
+
+    public constructor(valueType: TypeModel<T, O>) {
+        super();
+        this.valueType = valueType;
+    }
+
+    public test(x: unknown): x is Set<T> {
+        if (!(x instanceof Set)) return false;
+        for (const value of x.values()) {
+            if (!this.valueType.test(value)) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * `Set`には順序以外の位置がないため、挿入順のインデックスをパスとします。
+     */
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<Set<O>> {
+        if (!(x instanceof Set)) return super[SYMBOL_FOR_INSPECTION](x, path, context);
+
+        const issues: ValidationIssue[] = [];
+        const set = new Set<O>();
+
+        let index = 0;
+        for (const value of x.values()) {
+            const result = this.valueType[SYMBOL_FOR_INSPECTION](value, childPathOf(path, index++), context);
+            if (result.success) set.add(result.value);
+            else issues.push(...result.issues);
+        }
+
+        return settle(this, x, set, path, issues);
+    }
+
+    /**
+     * `Set`の要素の型を表現する`TypeModel`を返します。
+     * @returns (要素)型の`TypeModel`インスタンス
+     */
+    public getModelOfElement(): TypeModel<T, O> {
+        return this.valueType;
+    }
+
+    /**
+     * 要素数が指定の範囲内であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * @returns ランタイム条件付きインスタンス
+     * @throws `TypeSentryError`
+     */
+    public withSize(range: LengthRange): SetModel<T, O> {
+        const min = range.min === undefined ? 0 : range.min;
+        const max = range.max === undefined ? Infinity : range.max;
+
+        if (min > max || min < 0) {
+            throw new TypeSentryError(`無効な範囲です: ${min}～${max}`);
+        }
+
+        const that = this;
+
+        const isWithin = (x: unknown) => min <= (x as Set<unknown>).size && (x as Set<unknown>).size <= max;
+
+        return new (class extends SetModel<T, O> {
+            public override test(x: unknown): x is Set<T> {
+                return that.test(x) && isWithin(x);
+            }
+
+            public override [SYMBOL_FOR_CONDITION](x: unknown, value: unknown): boolean {
+                return that[SYMBOL_FOR_CONDITION](x, value) && isWithin(x);
+            }
+
+            public override toString(): string {
+                return constrainedStringOf(that.toString(), "size: " + rangeStringOf(min, max === Infinity ? undefined : max));
+            }
+        })(this.valueType);
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "set", element: this.valueType };
+    }
+
+    public override toString(): string {
+        return "Set<" + this.valueType.toString() + ">"
+    }
+}
+
+type ClassLike<T> = (abstract new (...args: unknown[]) => T) | (Function & { readonly prototype: T });
+type InstanceOfClassLike<T extends ClassLike<unknown>> = T extends { readonly prototype: infer I } ? I : never;
+
+class ClassModel<T extends ClassLike<unknown>> extends TypeModel<InstanceOfClassLike<T>> {
+    private constructor(private readonly constructorObject: T) {
+        super();
+    }
+
+    public test(x: unknown): x is InstanceOfClassLike<T> {
+        return x instanceof this.constructorObject;
+    }
+
+    public static newInstance<U extends ClassLike<unknown>>(constructor: U): ClassModel<U> {
+        return new this(constructor);
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "class", constructorObject: this.constructorObject };
+    }
+
+    public override toString(): string {
+        return this.constructorObject.name;
+    }
+}
+
+type TypeModelArrayToTuple<T extends TypeModel<unknown>[]> = { [K in keyof T]: T[K] extends TypeModel<infer U, unknown> ? U : never }
+
+type TypeModelArrayToOutputTuple<T extends TypeModel<unknown>[]> = { [K in keyof T]: T[K] extends TypeModel<unknown, infer U> ? U : never }
+
+class TupleModel<T extends TypeModel<unknown>[]> extends TypeModel<TypeModelArrayToTuple<T>, TypeModelArrayToOutputTuple<T>> {
+    private readonly tuple: T;
+
+    private constructor(tuple: T) {
+        super();
+        this.tuple = tuple;
+    }
+
+    public override test(x: unknown): x is TypeModelArrayToTuple<T> {
+        if (!Array.isArray(x)) return false;
+        else if (x.length !== this.tuple.length) return false;
+        
+        for (const [index, model] of this.tuple.entries()) {
+            if (!model.test(x[index])) return false;
+        }
+
+        return true;
+    }
+
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<TypeModelArrayToOutputTuple<T>> {
+        if (!Array.isArray(x)) return super[SYMBOL_FOR_INSPECTION](x, path, context);
+
+        const issues: ValidationIssue[] = [];
+        const value: unknown[] = [];
+
+        if (x.length !== this.tuple.length) {
+            issues.push(issueOf(this, x, path, `要素数が一致しません: 期待された要素数は${this.tuple.length}ですが、${x.length}でした`));
+        }
+
+        for (const [index, model] of this.tuple.entries()) {
+            const result = model[SYMBOL_FOR_INSPECTION](x[index], childPathOf(path, index), context);
+            if (result.success) value.push(result.value);
+            else issues.push(...result.issues);
+        }
+
+        for (let index = this.tuple.length; index < x.length; index++) {
+            issues.push({ path: childPathOf(path, index), expected: "never", actual: x[index], message: "余分な要素です" });
+        }
+
+        return settle(this, x, value, path, issues);
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        const prefixItems = this.tuple.map((model, index) => model[SYMBOL_FOR_JSON_SCHEMA](childPathOf(childPathOf(path, "prefixItems"), index), unsupported));
+        return { type: "array", prefixItems, items: false, minItems: prefixItems.length };
+    }
+
+    public getModelAt<N extends number>(index: N): T[N] {
+        return this.tuple[index];
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "tuple", elements: [...this.tuple] };
+    }
+
+    public override toString(): string {
+        let string = "[";
+
+        let first = true;
+        for (const model of this.tuple.values()) {
+            if (!first) {
+                string += ", ";
+            }
+
+            string += model.toString();
+
+            first = false;
+        }
+
+        string += "]";
+
+        return string;
+    }
+
+    public static newInstance<T extends TypeModel<unknown>[]>(...elements: T): TupleModel<T> {
+        return new this(elements);
+    }
+}
+
+class RecordModel<K extends string | number | symbol, V, KO extends string | number | symbol = K, VO = V> extends TypeModel<Record<K, V>, Record<KO, VO>> {
+    private readonly keyType: TypeModel<K, KO>;
+
+    private readonly valueType: TypeModel<V, VO>;
+
+    public constructor(keyType: TypeModel<K, KO>, valueType: TypeModel<V, VO>) {
+        super();
+        this.keyType = keyType;
+        this.valueType = valueType;
+    }
+
+    public test(x: unknown): x is Record<K, V> {
+        if (typeof x !== "object" || x === null) return false;
+
+        for (const [key, value] of Object.entries(x)) {
+            if (!this.keyType.test(key)) return false;
+            if (!this.valueType.test(value)) return false;
+        }
+
+        return true;
+    }
+
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<Record<KO, VO>> {
+        if (typeof x !== "object" || x === null) return super[SYMBOL_FOR_INSPECTION](x, path, context);
+
+        const issues: ValidationIssue[] = [];
+        const record = {} as Record<KO, VO>;
+
+        for (const [key, value] of Object.entries(x)) {
+            const keyResult = this.keyType[SYMBOL_FOR_INSPECTION](key, childPathOf(path, key), context);
+            if (!keyResult.success) issues.push(...keyResult.issues);
+
+            const valueResult = this.valueType[SYMBOL_FOR_INSPECTION](value, childPathOf(path, key), context);
+            if (!valueResult.success) issues.push(...valueResult.issues);
+
+            if (keyResult.success && valueResult.success) {
+                record[keyResult.value] = valueResult.value;
+            }
+        }
+
+        return settle(this, x, record, path, issues);
+    }
+
+    /**
+     * `Record`のキーの型を表現する`TypeModel`を返します。
+     * @returns (キー)型の`TypeModel`インスタンス
+     */
+    public getModelOfKey(): TypeModel<K, KO> {
+        return this.keyType;
+    }
+
+    /**
+     * `Record`のキーの型を表現する`TypeModel`を返します。
+     * @returns (値)型の`TypeModel`インスタンス
+     */
+    public getModelOfValue(): TypeModel<V, VO> {
+        return this.valueType;
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        const additionalProperties = this.valueType[SYMBOL_FOR_JSON_SCHEMA](childPathOf(path, "additionalProperties"), unsupported);
+
+        if ((this.keyType as TypeModel<unknown>) === sentry.string) {
+            return { type: "object", additionalProperties };
+        }
+        else {
+            return { type: "object", propertyNames: this.keyType[SYMBOL_FOR_JSON_SCHEMA](childPathOf(path, "propertyNames"), unsupported), additionalProperties };
+        }
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "record", key: this.keyType, value: this.valueType };
+    }
+
+    public override toString(): string {
+        return "Record<" + this.keyType.toString() + ", " + this.valueType.toString() + ">";
+    }
+}
+
+class LiteralModel<T extends boolean | number | bigint | string | symbol> extends PrimitiveModel<T> {
+    private readonly value: T;
+
+    public constructor(value: T) {
+        super();
+        this.value = value;
+    }
+
+    public override test(x: unknown): x is T {
+        return x === this.value;
+    }
+
+    /**
+     * リテラルオブジェクトをそのまま返します。
+     * @returns リテラル値
+     */
+    public getLiteralValue(): T {
+        return this.value;
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        switch (typeof this.value) {
+            case "bigint":
+            case "symbol": return super[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
+            default: return { const: this.value };
+        }
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "literal", value: this.value };
+    }
+
+    public override toString(): string {
+        switch (typeof this.value) {
+            case "boolean": return this.value.toString();
+            case "number": return this.value.toString();
+            case "bigint": return this.value.toString() + "n";
+            case "string": return "\"" + this.value.replace(/"/g, "\\\"") + "\"";
+            case "symbol": return "symbol(" + (this.value.description === undefined ? "" : "\"" + this.value.description + "\"") + ")";
+        }
+    }
+
+    public static newInstance<U extends boolean | number | bigint | string | symbol>(string: U): LiteralModel<U> {
+        return new this(string);
+    }
+}
+
+class EnumLikeModel<T extends Record<string, string | number>> extends TypeModel<T[keyof T]> {
+    private readonly enumeration: T;
+
+    public constructor(enumeration: T) {
+        super();
+        this.enumeration = enumeration;
+    }
+
+    public override test(x: unknown): x is T[keyof T] {
+        if (!sentry.unionOf(sentry.string, sentry.number).test(x)) return false;
+        return Object.values(this.enumeration).includes(x);
+    }
+
+    /**
+     * 列挙子の名前と数値として解釈できる文字列を値に変換してから検査するインスタンスを新しく生成します。
+     * @returns 変換付きインスタンス
+     */
+    public coerce(): CoercedModel<T[keyof T] | string | number, T[keyof T]> {
+        return new CoercedModel(this, x => {
+            if (typeof x !== "string") {
+                return x;
+            }
+
+            const isNumeric = x.trim().length > 0 && !Number.isNaN(Number(x));
+
+            // 数値列挙型の逆引き (`E[0] === "A"`) は名前として扱わない
+            if (!isNumeric && Object.hasOwn(this.enumeration, x)) {
+                return this.enumeration[x];
+            }
+            else if (isNumeric && !this.test(x)) {
+                return Number(x);
+            }
+            else {
+                return x;
+            }
+        });
+    }
+
+    public override [SYMBOL_FOR_JSON_SCHEMA](_path: string, _unsupported: ValidationIssue[]): JSONSchema {
+        return { enum: Object.values(this.enumeration) };
+    }
+
+    public static newInstance<U extends Record<string, string | number>>(enumeration: U): EnumLikeModel<U> {
+        return new this(enumeration);
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "enum", enumeration: { ...this.enumeration } };
+    }
+
+    public override toString(): string {
+        let s = "Enum { ";
+
+        let first = true;
+        for (const [k, v] of Object.entries(this.enumeration)) {
+            if (!first) {
+                s += ', ';
+            }
+
+            s += k + '=' + v;
+            first = false;
+        }
+
+        return s + " }";
+    }
+}
+
+type IsOptional<T> = T extends NeoOptionalModel<unknown, unknown> ? true : T extends DefaultModel<unknown, unknown> ? true : false;
+
+type IsOptionalOutput<T> = T extends NeoOptionalModel<unknown, unknown> ? true : false;
+
+type ExtractTypeInObjectOptionableValue<T> = {
+    [K in keyof T as IsOptional<T[K]> extends true ? K : never]?: T[K] extends TypeModel<infer I, unknown> ? I : never;
+} & {
+    [K in keyof T as IsOptional<T[K]> extends true ? never : K]: T[K] extends TypeModel<infer I, unknown> ? I : never;
+};
+
+type ExtractOutputInObjectOptionableValue<T> = {
+    [K in keyof T as IsOptionalOutput<T[K]> extends true ? K : never]?: T[K] extends TypeModel<unknown, infer O> ? O : never;
+} & {
+    [K in keyof T as IsOptionalOutput<T[K]> extends true ? never : K]: T[K] extends TypeModel<unknown, infer O> ? O : never;
+};
+
+class NeoOptionalModel<T, O = T> extends TypeModel<T, O> {
+    private constructor(private readonly type: TypeModel<T, O>) {
+        super();
     }
 
-    public override toString(): string {
-        return "any";
+    public override test(x: unknown): x is T {
+        return this.type.test(x);
     }
 
-    public static readonly INSTANCE: AnyModel = new this();
-}
-
-class NeverModel extends TypeModel<never> {
-    public test(_: unknown): _ is never {
-        return false;
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O> {
+        return this.type[SYMBOL_FOR_INSPECTION](x, path, context);
     }
 
-    public override toString(): string {
-        return "never";
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return this.type[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
     }
 
-    public static readonly INSTANCE: NeverModel = new this();
-}
-
-class UnknownModel extends TypeModel<unknown> {
-    public override test(_: unknown): _ is unknown {
-        return true;
+    public override getStructure(): TypeModelStructure {
+        return { kind: "optional", inner: this.type };
     }
 
     public override toString(): string {
-        return "unknown";
+        return this.type.toString();
     }
 
-    public static readonly INSTANCE: UnknownModel = new this();
+    public static newInstance<const W, const V>(w: TypeModel<W, V>): NeoOptionalModel<W, V> {
+        return new NeoOptionalModel(w);
+    }
 }
 
-class VoidModel extends TypeModel<void> {
-    public test(x: unknown): x is void {
-        return x === undefined;
-    }
+type StructModels = Record<string | number | symbol, TypeModel<unknown>>;
 
-    public override toString(): string {
-        return "void";
-    }
+type WithCatchall<X, C> = C extends TypeModel<infer I, unknown> ? X & Record<string, I> : X;
 
-    public static readonly INSTANCE: VoidModel = new this();
-}
+type WithCatchallOutput<X, C> = C extends TypeModel<unknown, infer O> ? X & Record<string, O> : X;
 
-type ExtractTypeInObjectValue<T> = {
-    [K in keyof T]: T[K] extends TypeModel<infer U> ? U : never;
+type PartialModels<T> = {
+    [K in keyof T]: T[K] extends NeoOptionalModel<unknown, unknown> ? T[K] : T[K] extends TypeModel<infer I, infer O> ? NeoOptionalModel<I, O> : never;
 };
 
-/**
- * @deprecated
- */
-class ObjectModel<T> extends TypeModel<T> {
+type RequiredModels<T> = {
+    [K in keyof T]: T[K] extends NeoOptionalModel<infer I, infer O> ? TypeModel<I, O> : T[K];
+};
+
+type ExtendedModels<T, U> = Omit<T, keyof U> & U;
+
+class NeoObjectModel<T extends StructModels, C extends TypeModel<unknown> | undefined = undefined> extends TypeModel<WithCatchall<ExtractTypeInObjectOptionableValue<T>, C>, WithCatchallOutput<ExtractOutputInObjectOptionableValue<T>, C>> {
     private readonly object: T;
 
-    protected constructor(object: T) {
+    /**
+     * 定義されていないキーの値の型 (`undefined`ならば検査しない)
+     */
+    private readonly catchallModel: C;
+
+    protected constructor(object: T, catchallModel: C) {
         super();
         this.object = object;
+        this.catchallModel = catchallModel;
     }
 
-    public test(x: unknown): x is T {
+    public test(x: unknown): x is WithCatchall<ExtractTypeInObjectOptionableValue<T>, C> {
         if (typeof x !== "object") return false;
         if (x === null) return false;
 
-        for (const [key, type] of Object.entries(this.object as Record<string | number | symbol, TypeModel<unknown>>)) {
-            const value: unknown = (x as Record<string | number | symbol, unknown>)[key];
-            if (!type.test(value)) return false;
+        for (const [key, typeModel] of Object.entries(this.object)) {
+            if (key in x) {
+                const value: unknown = (x as Record<string | number | symbol, unknown>)[key];
+                if (!typeModel.test(value)) return false;
+            }
+            else if (typeModel instanceof NeoOptionalModel || typeModel instanceof DefaultModel) {
+                continue;
+            }
+            else {
+                return false;
+            }
+        }
+
+        if (this.catchallModel !== undefined) {
+            for (const [key, value] of Object.entries(x)) {
+                if (!(key in this.object) && !this.catchallModel.test(value)) return false;
+            }
         }
 
         return true;
     }
 
     /**
-     * オブジェクトが過不足のない数のキーを持つ連想配列であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
-     * @returns ランタイム条件付きインスタンス
+     * 成功時の値は各キーの値を変換した新しいオブジェクトで、定義されていないキーはそのまま(`catchall()`があればその型で変換して)引き継ぎます。
      */
-    public exact(): ObjectModel<T> {
-        const that = this;
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<WithCatchallOutput<ExtractOutputInObjectOptionableValue<T>, C>> {
+        if (typeof x !== "object" || x === null) return super[SYMBOL_FOR_INSPECTION](x, path, context);
 
-        return new (class extends ObjectModel<T> {
-            public override test(x: unknown): x is T {
-                if (that.test(x)) {
-                    return Object.keys(x as object).length === Object.keys(this.object as object).length;
-                }
-                else return false;
+        const issues: ValidationIssue[] = [];
+        const value: Record<string | number | symbol, unknown> = { ...x };
+
+        for (const [key, typeModel] of Object.entries(this.object)) {
+            if (key in x || typeModel instanceof DefaultModel) {
+                const result = typeModel[SYMBOL_FOR_INSPECTION]((x as Record<string | number | symbol, unknown>)[key], childPathOf(path, key), context);
+                if (result.success) value[key] = result.value;
+                else issues.push(...result.issues);
             }
-        })(this.object);
-    }
+            else if (!(typeModel instanceof NeoOptionalModel)) {
+                issues.push(issueOf(typeModel, undefined, childPathOf(path, key), "必須のキーが存在しません"));
+            }
+        }
 
-    public override toString(): string {
-        let string = "{";
+        if (this.catchallModel !== undefined) {
+            for (const [key, element] of Object.entries(x)) {
+                if (key in this.object) continue;
 
-        let first = true;
-        for (const [key, model] of Object.entries(this.object as Record<string | number | symbol, TypeModel<unknown>>)) {
-            if (!first) {
-                string += "; ";
+                const result = this.catchallModel[SYMBOL_FOR_INSPECTION](element, childPathOf(path, key), context);
+                if (result.success) value[key] = result.value;
+                else issues.push(...result.issues);
             }
+        }
 
-            let k: string = key;
+        return settle(this, x, value, path, issues);
+    }
 
-            if (key.includes(":")) {
-                k = "\"" + k + "\"";
+    /**
+     * `exact()`によって過剰なキーが禁止されているかを返します。
+     */
+    protected isExact(): boolean {
+        return false;
+    }
+
+    /**
+     * キーと型の組を置き換えたインスタンスを生成します。`exact()`と`catchall()`はそのまま引き継がれます。
+     */
+    private derive<U extends StructModels>(object: U): NeoObjectModel<U, C> {
+        const model = new NeoObjectModel(object, this.catchallModel);
+        return this.isExact() ? model.exact() as NeoObjectModel<U, C> : model;
+    }
+
+    /**
+     * オブジェクトが過剰な数のキーを持たない連想配列であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
+     * <br>`catchall()`で指定された型は取り除かれます。
+     * @returns ランタイム条件付きインスタンス
+     */
+    public exact(): NeoObjectModel<T> {
+        const that = NeoObjectModel.newInstance(this.object);
+
+        const isExact = (x: unknown) => Object.keys(x as object).every(key => key in that.object);
+
+        return new (class extends NeoObjectModel<T> {
+            public override test(x: unknown): x is ExtractTypeInObjectOptionableValue<T> {
+                return that.test(x) && isExact(x);
             }
-            else if (key.includes("\"")) {
-                k = k.replace(/"/g, "\\\"");
+
+            public override [SYMBOL_FOR_CONDITION](x: unknown, value: unknown): boolean {
+                return that[SYMBOL_FOR_CONDITION](x, value) && isExact(x);
             }
 
-            string += k;
-            string += ": ";
-            string += model.toString();
+            public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<ExtractOutputInObjectOptionableValue<T>> {
+                const result = that[SYMBOL_FOR_INSPECTION](x, path, context);
+                if (typeof x !== "object" || x === null) return result;
 
-            first = false;
-        }
+                const issues: ValidationIssue[] = result.success ? [] : [...result.issues];
 
-        string += "}";
+                for (const key of Object.keys(x)) {
+                    if (!(key in that.object)) {
+                        issues.push({ path: childPathOf(path, key), expected: "never", actual: (x as Record<string, unknown>)[key], message: "未知のキーです" });
+                    }
+                }
 
-        return string;
+                return settle(this, x, result.success ? result.value : x, path, issues);
+            }
+
+            public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+                return refineSchema(that[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), { additionalProperties: false });
+            }
+
+            protected override isExact(): boolean {
+                return true;
+            }
+        })(this.object, undefined);
     }
 
-    public static newInstance<U extends Record<string | number | symbol, TypeModel<unknown>>>(object: U): ObjectModel<ExtractTypeInObjectValue<U>> {
-        return new this(object as ExtractTypeInObjectValue<U>);
+    /**
+     * 定義されていないキーの値が`model`に一致することを要求するインスタンスを新しく生成します。
+     * <br>`exact()`は取り除かれます。
+     * @param model 定義されていないキーの値の型
+     * @returns 新しいインスタンス
+     */
+    public catchall<M extends TypeModel<unknown>>(model: M): NeoObjectModel<T, M> {
+        return new NeoObjectModel(this.object, model);
     }
-}
 
-class ArrayModel<T> extends TypeModel<T[]> {
-    private readonly type: TypeModel<T>;
+    /**
+     * 全てのキーを`optionalOf()`で包んだインスタンスを新しく生成します。
+     * @returns 新しいインスタンス
+     */
+    public partial(): NeoObjectModel<PartialModels<T>, C> {
+        const object: Record<string | number | symbol, TypeModel<unknown>> = {};
 
-    public constructor(type: TypeModel<T>) {
-        super();
-        this.type = type;
-    }
+        for (const [key, model] of Object.entries(this.object)) {
+            object[key] = model instanceof NeoOptionalModel ? model : NeoOptionalModel.newInstance(model);
+        }
 
-    public test(x: unknown): x is T[] {
-        return Array.isArray(x)
-            && x.every(e => this.type.test(e));
+        return this.derive(object as PartialModels<T>);
     }
 
     /**
-     * 配列長が指定の範囲内であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
-     * @returns ランタイム条件付きインスタンス
-     * @throws `TypeSentryError`
+     * 全てのキーから`optionalOf()`を取り除いたインスタンスを新しく生成します。
+     * @returns 新しいインスタンス
      */
-    public withLength(range: LengthRange): ArrayModel<T> {
-        const min = range.min === undefined ? 0 : range.min;
-        const max = range.max === undefined ? Infinity : range.max;
+    public required(): NeoObjectModel<RequiredModels<T>, C> {
+        const object: Record<string | number | symbol, TypeModel<unknown>> = {};
 
-        if (min > max || min < 0) {
-            throw new TypeSentryError(`無効な範囲です: ${min}～${max}`);
+        for (const [key, model] of Object.entries(this.object)) {
+            const structure = model.getStructure();
+            object[key] = structure.kind === "optional" ? structure.inner : model;
         }
 
-        const that = this;
-
-        return new (class extends ArrayModel<T> {
-            public override test(x: unknown): x is T[] {
-                return that.test(x) && (min <= x.length && x.length <= max);
-            }
-        })(this.type);
+        return this.derive(object as RequiredModels<T>);
     }
 
     /**
-     * 配列の要素の型を表現する`TypeModel`を返します。
-     * @returns (配列要素)型の`TypeModel`インスタンス
+     * 指定のキーのみを残したインスタンスを新しく生成します。
+     * @param keys 残すキー
+     * @returns 新しいインスタンス
      */
-    public getModelOfElement(): TypeModel<T> {
-        return this.type;
-    }
+    public pick<const K extends keyof T>(...keys: K[]): NeoObjectModel<Pick<T, K>, C> {
+        const object: Partial<Pick<T, K>> = {};
 
-    public override toString(): string {
-        return this.type.toString() + "[]";
+        for (const key of keys) {
+            object[key] = this.object[key];
+        }
+
+        return this.derive(object as Pick<T, K>);
     }
-}
 
-/**
- * @deprecated
- */
-class FunctionModel extends TypeModel<Function> {
-    private constructor() {
-        super();
+    /**
+     * 指定のキーを取り除いたインスタンスを新しく生成します。
+     * @param keys 取り除くキー
+     * @returns 新しいインスタンス
+     */
+    public omit<const K extends keyof T>(...keys: K[]): NeoObjectModel<Omit<T, K>, C> {
+        const object: Record<string | number | symbol, TypeModel<unknown>> = { ...this.object };
+
+        for (const key of keys) {
+            delete object[key];
+        }
+
+        return this.derive(object as Omit<T, K>);
     }
 
-    public test(x: unknown): x is Function {
-        return typeof x === "function";
+    /**
+     * キーを追加したインスタンスを新しく生成します。既存のキーは上書きされます。
+     * @param object 追加するキーと型の組
+     * @returns 新しいインスタンス
+     */
+    public extend<U extends StructModels>(object: U): NeoObjectModel<ExtendedModels<T, U>, C> {
+        return this.derive({ ...this.object, ...object } as ExtendedModels<T, U>);
     }
 
-    public override toString(): string {
-        return "function";
+    /**
+     * 他の`structOf()`のキーを追加したインスタンスを新しく生成します。重複するキーは`other`の型になります。
+     * <br>`exact()`と`catchall()`はこのインスタンスのものを引き継ぎ、`other`のものは無視されます。
+     * @param other 追加する型
+     * @returns 新しいインスタンス
+     */
+    public merge<U extends StructModels, D extends TypeModel<unknown> | undefined>(other: NeoObjectModel<U, D>): NeoObjectModel<ExtendedModels<T, U>, C> {
+        return this.extend(other.object);
     }
 
-    public static readonly INSTANCE: FunctionModel = new this();
-}
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        const properties: Record<string, JSONSchema> = {};
+        const required: string[] = [];
 
-class SymbolModel extends TypeModel<symbol> {
-    private constructor() {
-        super();
+        for (const [key, model] of Object.entries(this.object)) {
+            properties[key] = model[SYMBOL_FOR_JSON_SCHEMA](childPathOf(childPathOf(path, "properties"), key), unsupported);
+
+            if (!(model instanceof NeoOptionalModel || model instanceof UndefindableModel || model instanceof DefaultModel)) {
+                required.push(key);
+            }
+        }
+
+        if (this.catchallModel === undefined) {
+            return { type: "object", properties, required };
+        }
+        else {
+            return { type: "object", properties, required, additionalProperties: this.catchallModel[SYMBOL_FOR_JSON_SCHEMA](childPathOf(path, "additionalProperties"), unsupported) };
+        }
     }
 
-    public test(x: unknown): x is symbol {
-        return typeof x === "symbol";
+    public getModelOfKey<const K extends keyof T>(key: K): T[K] {
+        return this.object[key];
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "struct", properties: { ...this.object }, exact: this.isExact(), catchall: this.catchallModel };
     }
 
     public override toString(): string {
-        return "symbol";
+        let string = "{";
+
+        let first = true;
+        for (const [key, model] of Object.entries(this.object)) {
+            if (!first) {
+                string += "; ";
+            }
+
+            let k: string = key;
+
+            if (key.includes(":")) {
+                k = "\"" + k + "\"";
+            }
+            else if (key.includes("\"")) {
+                k = k.replace(/"/g, "\\\"");
+            }
+
+            string += k;
+
+            if (model instanceof NeoOptionalModel || model instanceof DefaultModel) {
+                string += "?: ";
+            }
+            else {
+                string += ": ";
+            }
+
+            string += model.toString();
+
+            first = false;
+        }
+
+        if (this.catchallModel !== undefined) {
+            string += (first ? "" : "; ") + "[key: string]: " + this.catchallModel.toString();
+        }
+
+        string += "}";
+
+        return string;
     }
 
-    public static readonly INSTANCE: SymbolModel = new this();
+    public static newInstance<U extends StructModels>(object: U): NeoObjectModel<U> {
+        return new this(object, undefined);
+    }
 }
 
-type ExtractTypes<U extends TypeModel<unknown>[]> = U[number] extends TypeModel<infer V> ? V : never;
+type StructModelRecord = Record<string, NeoObjectModel<StructModels, TypeModel<unknown> | undefined>>;
 
-class UnionModel<T> extends TypeModel<T> {
-    private readonly types: TypeModel<T>[];
+type ExtractDiscriminatedTypes<K extends string, M extends StructModelRecord> = {
+    [P in keyof M & string]: (M[P] extends TypeModel<infer I, unknown> ? I : never) & Record<K, P>;
+}[keyof M & string];
 
-    private constructor(...types: TypeModel<unknown>[]) {
+type ExtractDiscriminatedOutputTypes<K extends string, M extends StructModelRecord> = {
+    [P in keyof M & string]: (M[P] extends TypeModel<unknown, infer O> ? O : never) & Record<K, P>;
+}[keyof M & string];
+
+class DiscriminatedUnionModel<K extends string, M extends StructModelRecord> extends TypeModel<ExtractDiscriminatedTypes<K, M>, ExtractDiscriminatedOutputTypes<K, M>> {
+    private readonly models: Map<string, TypeModel<unknown>>;
+
+    private constructor(private readonly key: K, models: M) {
         super();
-        this.types = types as TypeModel<T>[];
+        this.models = new Map(Object.entries(models));
     }
 
-    public override test(x: unknown): x is T {
-        return this.types.some(type => type.test(x));
+    /**
+     * タグの値に対応する型のみを返します。
+     */
+    private modelOf(tag: unknown): TypeModel<unknown> | undefined {
+        return typeof tag === "string" ? this.models.get(tag) : undefined;
     }
 
-    public override toString(): string {
-        return this.types.map(type => type.toString()).join(" | ");
-    }
+    public override test(x: unknown): x is ExtractDiscriminatedTypes<K, M> {
+        if (typeof x !== "object" || x === null) return false;
 
-    public static newInstance<U extends TypeModel<unknown>[]>(...types: U): UnionModel<ExtractTypes<U>> {
-        return new this(...types);
+        const model = this.modelOf((x as Record<string, unknown>)[this.key]);
+        return model !== undefined && model.test(x);
     }
-}
 
-type UnionToIntersection<U> = (U extends unknown ? (k: U) => void : never) extends ((k: infer I) => void) ? I : never;
+    /**
+     * タグが未知である場合はタグの位置に、タグは既知だが本体が一致しない場合はその型の失敗をそのまま返します。
+     */
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<ExtractDiscriminatedOutputTypes<K, M>> {
+        if (typeof x !== "object" || x === null) {
+            return { success: false, issues: [issueOf(this, x, path)] };
+        }
+
+        const tag = (x as Record<string, unknown>)[this.key];
+        const model = this.modelOf(tag);
+
+        if (model === undefined) {
+            return {
+                success: false,
+                issues: [{
+                    path: childPathOf(path, this.key),
+                    expected: [...this.models.keys()].map(tag => sentry.literalOf(tag).toString()).join(" | "),
+                    actual: tag,
+                    message: "未知のタグです"
+                }]
+            };
+        }
 
-type ExtractIntersectTypes<T extends TypeModel<unknown>[]> = UnionToIntersection<(T extends TypeModel<infer U>[] ? U[] : never)[number]>;
+        return model[SYMBOL_FOR_INSPECTION](x, path, context) as ValidationResult<ExtractDiscriminatedOutputTypes<K, M>>;
+    }
 
-class IntersectionModel<T> extends TypeModel<T> {
-    private readonly types: TypeModel<T>[];
+    /**
+     * 各要素のスキーマにタグの`const`を加え、`oneOf`で並べます。
+     */
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return {
+            oneOf: [...this.models].map(([tag, model], index) => {
+                const schema = model[SYMBOL_FOR_JSON_SCHEMA](childPathOf(childPathOf(path, "oneOf"), index), unsupported);
+                const discriminator: JSONSchemaObject = { properties: { [this.key]: { const: tag } }, required: [this.key] };
+
+                if (typeof schema === "boolean") {
+                    return { allOf: [schema, discriminator] };
+                }
 
-    private constructor(...types: TypeModel<unknown>[]) {
-        super();
-        this.types = types as TypeModel<T>[];
+                return {
+                    ...schema,
+                    properties: { ...schema.properties, ...discriminator.properties },
+                    required: [...new Set([...(schema.required ?? []), this.key])]
+                };
+            })
+        };
     }
 
-    public override test(x: unknown): x is T {
-        return this.types.some(type => type.test(x));
+    public override getStructure(): TypeModelStructure {
+        return { kind: "discriminatedUnion", key: this.key, members: new Map(this.models) };
     }
 
     public override toString(): string {
-        return this.types.map(type => type.toString()).join(" & ");
+        return [...this.models.values()].map(model => model.toString()).join(" | ");
     }
 
-    public static newInstance<U extends TypeModel<unknown>[]>(...types: U): IntersectionModel<ExtractIntersectTypes<U>> {
-        return new this(...types);
+    public static newInstance<L extends string, U extends StructModelRecord>(key: L, models: U): DiscriminatedUnionModel<L, U> {
+        return new this(key, models);
     }
 }
 
-class UndefindableModel<T> extends TypeModel<T | undefined> {
-    private readonly type: TypeModel<T>;
+type DynamicFunction<A extends unknown[], R> = (...args: A) => R;
+
+type TypeModelsToFunc<A extends TypeModel<unknown>[], R extends TypeModel<unknown>> = DynamicFunction<TypeModelArrayToTuple<A>, R extends TypeModel<infer I, unknown> ? I : never>;
 
-    private constructor(type: TypeModel<T>) {
+class NeoFunctionModel<A extends TypeModel<unknown>[], R extends TypeModel<unknown>> extends TypeModel<TypeModelsToFunc<A, R>> {
+    public constructor(private readonly args: A, private readonly returns: R) {
         super();
-        this.type = type;
     }
 
-    public override test(x: unknown): x is (T | undefined) {
-        return this.type.test(x)
-            || sentry.undefined.test(x);
+    public override test(x: unknown): x is TypeModelsToFunc<A, R> {
+        return typeof x === "function";
     }
 
     /**
-     * `undefindable`を解除し、もとの型の`TypeModel`を返します。
-     * @returns `undefindable`を解除した型を表現する`TypeModel`インスタンス
+     * 呼び出しのたびに引数と戻り値を検査する関数で`callbackFn`を包みます。
+     * <br>`callbackFn`には検査後の(変換された)引数が渡され、戻り値も検査後の値に置き換わります。
+     * 戻り値の型が`promiseOf()`であれば、解決された値が検査されます。
+     * @param callbackFn 実装
+     * @returns 実行時チェック付きの関数
+     * @throws `TypeSentryError` 呼び出し時に引数(`/arguments/0`など)か戻り値(`/returnValue`)が一致しなかったとき
      */
-    public unwrap(): TypeModel<T> {
-        return this.type;
-    }
+    public implement(callbackFn: (...args: TypeModelArrayToOutputTuple<A>) => Infer<R>): (...args: TypeModelArrayToTuple<A>) => InferOutput<R> {
+        const that = this;
 
-    public override toString(): string {
-        return this.type.toString() + " | undefined";
-    }
+        return function (this: unknown, ...args: TypeModelArrayToTuple<A>): InferOutput<R> {
+            const issues: ValidationIssue[] = [];
+            const values: unknown[] = [];
+            const context: InspectionContext = { convert: true, promises: [] };
 
-    public static newInstance<U>(type: TypeModel<U>): UndefindableModel<U> {
-        return new this(type);
-    }
-}
+            for (const [index, model] of that.args.entries()) {
+                const result = model[SYMBOL_FOR_INSPECTION](args[index], childPathOf("/arguments", index), context);
+                if (result.success) values.push(result.value);
+                else issues.push(...result.issues);
+            }
 
-class NullableModel<T> extends TypeModel<T | null> {
-    private readonly type: TypeModel<T>;
+            for (let index = that.args.length; index < args.length; index++) {
+                issues.push({ path: childPathOf("/arguments", index), expected: "never", actual: args[index], message: "余分な引数です" });
+            }
 
-    private constructor(type: TypeModel<T>) {
-        super();
-        this.type = type;
-    }
+            // 一致しない引数があれば、他の引数を変換した値も捨てる
+            if (issues.length > 0) {
+                discard(context);
+                throw new TypeSentryError(`関数の引数が期待された型(${that.toString()})に一致しません` + issueLinesOf(issues), issues);
+            }
 
-    public override test(x: unknown): x is (T | null) {
-        return this.type.test(x)
-            || sentry.null.test(x);
+            const returnValue = callbackFn.apply(this, values as TypeModelArrayToOutputTuple<A>);
+            const result = inspect(that.returns, returnValue, "/returnValue", true);
+
+            if (result.success) {
+                return result.value as InferOutput<R>;
+            }
+            else {
+                throw new TypeSentryError(`関数の戻り値が期待された型(${that.returns.toString()})に一致しません` + issueLinesOf(result.issues), result.issues);
+            }
+        };
     }
 
-    /**
-     * `nullable`を解除し、もとの型の`TypeModel`を返します。
-     * @returns `nullable`を解除した型を表現する`TypeModel`インスタンス
-     */
-    public unwrap(): TypeModel<T> {
-        return this.type;
+    public getArgumentModelAt<const N extends number>(index: N): A[N] {
+        return this.args[index];
     }
 
-    public override toString(): string {
-        return this.type.toString() + " | null";
+    public getReturnValueModel(): R {
+        return this.returns;
     }
 
-    public static newInstance<U>(type: TypeModel<U>): NullableModel<U> {
-        return new this(type);
+    public override getStructure(): TypeModelStructure {
+        return { kind: "function", parameters: [...this.args], returnValue: this.returns };
     }
-}
 
-class MapModel<K, V> extends TypeModel<Map<K, V>> {
-    private readonly keyType: TypeModel<K>;
+    public override toString(): string {
+        let s: string = "(";
+
+        let first = true;
+        for (const arg of this.args) {
+            if (!first) s += ", ";
+            s += arg.toString();
+            first = false;
+        }
+
+        s += ") => ";
 
-    private readonly valueType: TypeModel<V>;
+        s += this.returns;
 
-    public constructor(keyType: TypeModel<K>, valueType: TypeModel<V>) {
-        super();
-        this.keyType = keyType;
-        this.valueType = valueType;
+        return s;
     }
 
-    public test(x: unknown): x is Map<K, V> {
-        if (!(x instanceof Map)) return false;
-        for (const [key, value] of x.entries()) {
-            if (!this.keyType.test(key)) return false;
-            if (!this.valueType.test(value)) return false;
-        }
+    public static newInstance<A extends TypeModel<unknown>[], R extends TypeModel<unknown>>(args: A, returns: R): NeoFunctionModel<A, R> {
+        return new NeoFunctionModel(args, returns);
+    }
+}
 
-        return true;
+class PromiseModel<T, O = T> extends TypeModel<Promise<T>, Promise<O>> {
+    private constructor(private readonly type: TypeModel<T, O>) {
+        super();
     }
 
     /**
-     * `Map`のキーの型を表現する`TypeModel`を返します。
-     * @returns (キー)型の`TypeModel`インスタンス
+     * 解決される値は同期的に検査できないため、`Promise`であることのみを検査します。
      */
-    public getModelOfKey(): TypeModel<K> {
-        return this.keyType;
+    public override test(x: unknown): x is Promise<T> {
+        return x instanceof Promise;
     }
 
     /**
-     * `Map`のキーの型を表現する`TypeModel`を返します。
-     * @returns (値)型の`TypeModel`インスタンス
+     * 解決された値を検査・変換する`Promise`を返します。一致しなければその`Promise`が`TypeSentryError`で拒否されます。
      */
-    public getModelOfValue(): TypeModel<V> {
-        return this.valueType;
-    }
-
-    public override toString(): string {
-        return "Map<" + this.keyType.toString() + ", " + this.valueType.toString() + ">";
-    }
-}
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<Promise<O>> {
+        if (!(x instanceof Promise)) return { success: false, issues: [issueOf(this, x, path)] };
+        else if (!context.convert) return { success: true, value: x };
 
-class SetModel<T> extends TypeModel<Set<T>> {
-    private readonly valueType: TypeModel<T>;
+        const value = x.then(value => {
+            const result = inspect(this.type, value, path, true);
 
-    public constructor(valueType: TypeModel<T>) {
-        super();
-        this.valueType = valueType;
-    }
+            if (result.success) return result.value;
+            else throw castErrorOf(this.type, value, result.issues);
+        });
 
-    public test(x: unknown): x is Set<T> {
-        if (!(x instanceof Set)) return false;
-        for (const value of x.values()) {
-            if (!this.valueType.test(value)) return false;
-        }
+        context.promises.push(value);
 
-        return true;
+        return { success: true, value };
     }
 
     /**
-     * `Set`の要素の型を表現する`TypeModel`を返します。
-     * @returns (要素)型の`TypeModel`インスタンス
+     * 解決される値の型を表現する`TypeModel`を返します。
+     * @returns (解決される値の)型の`TypeModel`インスタンス
      */
-    public getModelOfElement(): TypeModel<T> {
-        return this.valueType;
+    public getModelOfResolvedValue(): TypeModel<T, O> {
+        return this.type;
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "promise", inner: this.type };
     }
 
     public override toString(): string {
-        return "Set<" + this.valueType.toString() + ">"
+        return "Promise<" + this.type.toString() + ">";
+    }
+
+    public static newInstance<U, V>(type: TypeModel<U, V>): PromiseModel<U, V> {
+        return new this(type);
     }
 }
 
-type ClassLike<T> = (abstract new (...args: unknown[]) => T) | (Function & { readonly prototype: T });
-type InstanceOfClassLike<T extends ClassLike<unknown>> = T extends { readonly prototype: infer I } ? I : never;
+/**
+ * 初めて使われるときに解決される型
+ * <br>自己参照する型を表現するために使います。
+ */
+class LazyModel<T, O = T> extends TypeModel<T, O> {
+    private resolved: TypeModel<T, O> | undefined;
 
-class ClassModel<T extends ClassLike<unknown>> extends TypeModel<InstanceOfClassLike<T>> {
-    private constructor(private readonly constructorObject: T) {
+    /**
+     * 検査中のオブジェクト
+     * <br>同じオブジェクトが再び現れたら循環参照とみなします。
+     */
+    private readonly inspecting: Set<unknown> = new Set();
+
+    private stringifying: boolean = false;
+
+    private schemaPath: string | undefined;
+
+    private constructor(private readonly getter: () => TypeModel<T, O>, private readonly name: string | undefined) {
         super();
     }
 
-    public test(x: unknown): x is InstanceOfClassLike<T> {
-        return x instanceof this.constructorObject;
+    private resolve(): TypeModel<T, O> {
+        if (this.resolved === undefined) {
+            this.resolved = this.getter();
+        }
+
+        return this.resolved;
     }
 
-    public static newInstance<U extends ClassLike<unknown>>(constructor: U): ClassModel<U> {
-        return new this(constructor);
+    private static isReferential(x: unknown): boolean {
+        return (typeof x === "object" && x !== null) || typeof x === "function";
     }
 
-    public override toString(): string {
-        return this.constructorObject.name;
+    public override test(x: unknown): x is T {
+        if (!LazyModel.isReferential(x)) {
+            return this.resolve().test(x);
+        }
+        else if (this.inspecting.has(x)) {
+            return false;
+        }
+
+        this.inspecting.add(x);
+
+        try {
+            return this.resolve().test(x);
+        }
+        finally {
+            this.inspecting.delete(x);
+        }
     }
-}
 
-type TypeModelArrayToTuple<T extends TypeModel<unknown>[]> = { [K in keyof T]: T[K] extends TypeModel<infer U> ? U : never }
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O> {
+        if (!LazyModel.isReferential(x)) {
+            return this.resolve()[SYMBOL_FOR_INSPECTION](x, path, context);
+        }
+        else if (this.inspecting.has(x)) {
+            return { success: false, issues: [issueOf(this, x, path, "循環参照を含む値です")] };
+        }
 
-class TupleModel<T extends TypeModel<unknown>[]> extends TypeModel<TypeModelArrayToTuple<T>> {
-    private readonly tuple: T;
+        this.inspecting.add(x);
 
-    private constructor(tuple: T) {
-        super();
-        this.tuple = tuple;
+        try {
+            return this.resolve()[SYMBOL_FOR_INSPECTION](x, path, context);
+        }
+        finally {
+            this.inspecting.delete(x);
+        }
     }
 
-    public override test(x: unknown): x is TypeModelArrayToTuple<T> {
-        if (!Array.isArray(x)) return false;
-        else if (x.length !== this.tuple.length) return false;
-        
-        for (const [index, model] of this.tuple.entries()) {
-            if (!model.test(x[index])) return false;
+    /**
+     * 自己参照は、外側で生成中のスキーマの位置を指す`$ref`になります。
+     */
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        if (this.schemaPath !== undefined) {
+            return { $ref: "#" + this.schemaPath };
         }
 
-        return true;
+        this.schemaPath = path;
+
+        try {
+            return this.resolve()[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
+        }
+        finally {
+            this.schemaPath = undefined;
+        }
     }
 
-    public getModelAt<N extends number>(index: N): T[N] {
-        return this.tuple[index];
+    public override getStructure(): TypeModelStructure {
+        return { kind: "lazy", name: this.name, resolve: () => this.resolve() };
     }
 
+    /**
+     * 自己参照は名前 (名前がなければ`...`) で表されます。
+     */
     public override toString(): string {
-        let string = "[";
-
-        let first = true;
-        for (const model of this.tuple.values()) {
-            if (!first) {
-                string += ", ";
-            }
+        if (this.stringifying) {
+            return this.name ?? "...";
+        }
 
-            string += model.toString();
+        this.stringifying = true;
 
-            first = false;
+        try {
+            return this.resolve().toString();
+        }
+        finally {
+            this.stringifying = false;
         }
+    }
 
-        string += "]";
+    public static newInstance<U, V>(getter: () => TypeModel<U, V>, name?: string): LazyModel<U, V> {
+        return new this(getter, name);
+    }
+}
 
-        return string;
+/**
+ * 検査に成功した値を変換する型
+ */
+class TransformModel<T, O> extends TypeModel<T, O> {
+    public constructor(private readonly source: TypeModel<T, unknown>, private readonly callbackFn: (value: unknown) => O) {
+        super();
     }
 
-    public static newInstance<T extends TypeModel<unknown>[]>(...elements: T): TupleModel<T> {
-        return new this(elements);
+    public override test(x: unknown): x is T {
+        return this.source.test(x);
+    }
+
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O> {
+        const result = this.source[SYMBOL_FOR_INSPECTION](x, path, context);
+        return result.success ? { success: true, value: this.callbackFn(result.value) } : result;
     }
-}
 
-class RecordModel<K extends string | number | symbol, V> extends TypeModel<Record<K, V>> {
-    private readonly keyType: TypeModel<K>;
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return this.source[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "transform", source: this.source };
+    }
 
-    private readonly valueType: TypeModel<V>;
+    public override toString(): string {
+        return this.source.toString();
+    }
+}
 
-    public constructor(keyType: TypeModel<K>, valueType: TypeModel<V>) {
+/**
+ * 変換後の値に任意の条件を課す型
+ */
+class RefinedModel<T, O> extends TypeModel<T, O> {
+    public constructor(private readonly source: TypeModel<T, O>, private readonly predicate: (value: unknown) => boolean, private readonly message: string) {
         super();
-        this.keyType = keyType;
-        this.valueType = valueType;
     }
 
-    public test(x: unknown): x is Record<K, V> {
-        if (typeof x !== "object" || x === null) return false;
+    public override test(x: unknown): x is T {
+        return inspect(this, x, "", false).success;
+    }
 
-        for (const [key, value] of Object.entries(x)) {
-            if (!this.keyType.test(key)) return false;
-            if (!this.valueType.test(value)) return false;
-        }
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O> {
+        const result = this.source[SYMBOL_FOR_INSPECTION](x, path, context);
 
-        return true;
+        if (result.success && !this.predicate(result.value)) {
+            return { success: false, issues: [issueOf(this, x, path, this.message)] };
+        }
+        else {
+            return result;
+        }
     }
 
-    /**
-     * `Record`のキーの型を表現する`TypeModel`を返します。
-     * @returns (キー)型の`TypeModel`インスタンス
-     */
-    public getModelOfKey(): TypeModel<K> {
-        return this.keyType;
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return this.source[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
     }
 
-    /**
-     * `Record`のキーの型を表現する`TypeModel`を返します。
-     * @returns (値)型の`TypeModel`インスタンス
-     */
-    public getModelOfValue(): TypeModel<V> {
-        return this.valueType;
+    public override getStructure(): TypeModelStructure {
+        return { kind: "refine", source: this.source, message: this.message };
     }
 
     public override toString(): string {
-        return "Record<" + this.keyType.toString() + ", " + this.valueType.toString() + ">";
+        return this.source.toString();
     }
 }
 
-class LiteralModel<T extends boolean | number | bigint | string | symbol> extends PrimitiveModel<T> {
-    private readonly value: T;
-
-    public constructor(value: T) {
+/**
+ * 変換後の値を別の型に渡す型
+ */
+class PipeModel<T, O> extends TypeModel<T, O> {
+    public constructor(private readonly source: TypeModel<T, unknown>, private readonly target: TypeModel<unknown, O>) {
         super();
-        this.value = value;
     }
 
     public override test(x: unknown): x is T {
-        return x === this.value;
+        return inspect(this, x, "", false).success;
     }
 
-    /**
-     * リテラルオブジェクトをそのまま返します。
-     * @returns リテラル値
-     */
-    public getLiteralValue(): T {
-        return this.value;
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O> {
+        const result = this.source[SYMBOL_FOR_INSPECTION](x, path, context);
+        return result.success ? this.target[SYMBOL_FOR_INSPECTION](result.value, path, context) : result;
     }
 
-    public override toString(): string {
-        switch (typeof this.value) {
-            case "boolean": return this.value.toString();
-            case "number": return this.value.toString();
-            case "bigint": return this.value.toString() + "n";
-            case "string": return "\"" + this.value.replace(/"/g, "\\\"") + "\"";
-            case "symbol": return "symbol(" + (this.value.description === undefined ? "" : "\"" + this.value.description + "\"") + ")";
-        }
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return this.source[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
+    }
+
+    public override getStructure(): TypeModelStructure {
+        return { kind: "pipe", source: this.source, target: this.target };
     }
 
-    public static newInstance<U extends boolean | number | bigint | string | symbol>(string: U): LiteralModel<U> {
-        return new this(string);
+    public override toString(): string {
+        return this.source.toString();
     }
 }
 
-class EnumLikeModel<T extends Record<string, string | number>> extends TypeModel<T[keyof T]> {
-    private readonly enumeration: T;
-
-    public constructor(enumeration: T) {
+/**
+ * `undefined`を代わりの値に置き換える型
+ */
+class DefaultModel<T, O> extends TypeModel<T | undefined, O> {
+    public constructor(private readonly source: TypeModel<T, O>, private readonly value: O) {
         super();
-        this.enumeration = enumeration;
     }
 
-    public override test(x: unknown): x is T[keyof T] {
-        if (!sentry.unionOf(sentry.string, sentry.number).test(x)) return false;
-        return Object.values(this.enumeration).includes(x);
+    public override test(x: unknown): x is T | undefined {
+        return x === undefined || this.source.test(x);
     }
 
-    public static newInstance<U extends Record<string, string | number>>(enumeration: U): EnumLikeModel<U> {
-        return new this(enumeration);
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O> {
+        if (x === undefined) return { success: true, value: this.value };
+        else return this.source[SYMBOL_FOR_INSPECTION](x, path, context);
     }
 
-    public override toString(): string {
-        let s = "Enum { ";
-
-        let first = true;
-        for (const [k, v] of Object.entries(this.enumeration)) {
-            if (!first) {
-                s += ', ';
-            }
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return refineSchema(this.source[SYMBOL_FOR_JSON_SCHEMA](path, unsupported), { default: this.value });
+    }
 
-            s += k + '=' + v;
-            first = false;
-        }
+    public override getStructure(): TypeModelStructure {
+        return { kind: "default", source: this.source, value: this.value };
+    }
 
-        return s + " }";
+    public override toString(): string {
+        return this.source.toString();
     }
 }
 
-type IsOptional<T> = T extends NeoOptionalModel<unknown> ? true : false;
+/**
+ * 値を変換してから元の型で検査する型
+ */
+class CoercedModel<I, O> extends TypeModel<I, O> {
+    public constructor(private readonly target: TypeModel<unknown, O>, private readonly coercion: (x: unknown) => unknown) {
+        super();
+    }
+
+    public override test(x: unknown): x is I {
+        return inspect(this, x, "", false).success;
+    }
 
-type ExtractTypeInObjectOptionableValue<T> = {
-    [K in keyof T as IsOptional<T[K]> extends true ? K : never]?: T[K] extends TypeModel<infer I> ? I : never;
-} & {
-    [K in keyof T as IsOptional<T[K]> extends true ? never : K]: T[K] extends TypeModel<infer I> ? I : never;
-};
+    /**
+     * 変換できない値はそのまま元の型に渡され、元の型の失敗として報告されます。
+     */
+    public override [SYMBOL_FOR_INSPECTION](x: unknown, path: string, context: InspectionContext): ValidationResult<O> {
+        const result = this.target[SYMBOL_FOR_INSPECTION](this.coercion(x), path, context);
+        return result.success ? result : { success: false, issues: result.issues.map(issue => issue.path === path ? { ...issue, actual: x } : issue) };
+    }
 
-class NeoOptionalModel<T> extends TypeModel<T> {
-    private constructor(private readonly type: TypeModel<T>) {
-        super();
+    public override [SYMBOL_FOR_JSON_SCHEMA](path: string, unsupported: ValidationIssue[]): JSONSchema {
+        return this.target[SYMBOL_FOR_JSON_SCHEMA](path, unsupported);
     }
 
-    public override test(x: unknown): x is T {
-        return this.type.test(x);
+    public override getStructure(): TypeModelStructure {
+        return { kind: "coerce", target: this.target };
     }
 
     public override toString(): string {
-        return this.type.toString();
+        return this.target.toString();
     }
+}
 
-    public static newInstance<const W>(w: TypeModel<W>): NeoOptionalModel<W> {
-        return new NeoOptionalModel(w);
+/**
+ * `TypeSentry`が投げるエラー
+ */
+export class TypeSentryError extends TypeError {
+    /**
+     * 検査で見つかった全ての失敗
+     */
+    public readonly issues: readonly ValidationIssue[];
+
+    public constructor(message: string, issues: readonly ValidationIssue[] = []) {
+        super(message);
+        this.issues = issues;
     }
 }
 
-class NeoObjectModel<T extends Record<string | number | symbol, TypeModel<unknown>>> extends TypeModel<ExtractTypeInObjectOptionableValue<T>> {
-    private readonly object: T;
+/**
+ * JSON Schemaから`TypeModel`を組み立てるクラス
+ */
+class JSONSchemaReader {
+    private static readonly KEYWORDS: ReadonlySet<string> = new Set([
+        "$schema", "$id", "$comment", "$defs", "$ref",
+        "title", "description", "default", "examples", "deprecated", "readOnly", "writeOnly",
+        "type", "const", "enum", "anyOf", "oneOf", "allOf", "not",
+        "properties", "required", "additionalProperties", "propertyNames",
+        "items", "prefixItems", "minItems", "maxItems",
+        "minLength", "maxLength", "pattern",
+        "minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf", "uniqueItems"
+    ]);
 
-    protected constructor(object: T) {
-        super();
-        this.object = object;
+    /**
+     * `type`ごとの、その型の値にのみ適用されるキーワード
+     */
+    private static readonly TYPED_KEYWORDS: ReadonlyMap<string, readonly string[]> = new Map([
+        ["number", ["minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf"]],
+        ["string", ["minLength", "maxLength", "pattern"]],
+        ["array", ["items", "prefixItems", "minItems", "maxItems", "uniqueItems"]],
+        ["object", ["properties", "required", "additionalProperties", "propertyNames"]]
+    ]);
+
+    private readonly unsupported: ValidationIssue[] = [];
+
+    private readonly resolving: Set<string> = new Set();
+
+    private readonly resolved: Map<string, TypeModel<unknown>> = new Map();
+
+    private constructor(private readonly root: JSONSchema) {}
+
+    private fail(schema: unknown, path: string, message: string): TypeModel<unknown> {
+        this.unsupported.push({ path, expected: "JSON Schema", actual: schema, message });
+        return sentry.never;
     }
 
-    public test(x: unknown): x is ExtractTypeInObjectOptionableValue<T> {
-        if (typeof x !== "object") return false;
-        if (x === null) return false;
+    private read(schema: unknown, path: string): TypeModel<unknown> {
+        if (schema === true) return sentry.unknown;
+        else if (schema === false) return sentry.never;
+        else if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+            return this.fail(schema, path, "スキーマはオブジェクトか真偽値である必要があります");
+        }
 
-        for (const [key, typeModel] of Object.entries(this.object)) {
-            if (key in x) {
-                const value: unknown = (x as Record<string | number | symbol, unknown>)[key];
-                if (!typeModel.test(value)) return false;
+        const object = schema as JSONSchemaObject;
+
+        for (const key of Object.keys(object)) {
+            if (!JSONSchemaReader.KEYWORDS.has(key)) {
+                this.fail(object[key as keyof JSONSchemaObject], childPathOf(path, key), "未対応のキーワードです");
             }
-            else if (this.object[key] instanceof NeoOptionalModel) {
-                continue;
+        }
+
+        // 全てのキーワードを満たす値のみを受け入れるため、キーワードごとの型を交差させる
+        const models: TypeModel<unknown>[] = [];
+
+        if (object.$ref !== undefined) {
+            models.push(this.reference(object.$ref, childPathOf(path, "$ref")));
+        }
+
+        if ("const" in object) {
+            models.push(this.literal(object.const, childPathOf(path, "const")));
+        }
+
+        if (object.enum !== undefined) {
+            if (!Array.isArray(object.enum) || object.enum.length === 0) {
+                models.push(this.fail(object.enum, childPathOf(path, "enum"), "enumは空でない配列である必要があります"));
             }
             else {
-                return false;
+                models.push(sentry.unionOf(...object.enum.map((value, index) => this.literal(value, childPathOf(childPathOf(path, "enum"), index)))));
             }
         }
 
-        return true;
+        if (object.anyOf !== undefined) {
+            models.push(sentry.unionOf(...this.subschemas(object.anyOf, childPathOf(path, "anyOf"))));
+        }
+
+        if (object.oneOf !== undefined) {
+            const subschemas = this.subschemas(object.oneOf, childPathOf(path, "oneOf"));
+            models.push(sentry.unionOf(...subschemas).refine(x => subschemas.filter(model => model.test(x)).length === 1, "oneOfの複数の要素に一致しています"));
+        }
+
+        if (object.allOf !== undefined) {
+            models.push(...this.subschemas(object.allOf, childPathOf(path, "allOf")));
+        }
+
+        if (object.not !== undefined) {
+            if (object.not === true || (typeof object.not === "object" && Object.keys(object.not).length === 0)) {
+                models.push(sentry.never);
+            }
+            else {
+                models.push(this.fail(object.not, childPathOf(path, "not"), "notは全ての値に一致するスキーマにのみ対応しています"));
+            }
+        }
+
+        if (Array.isArray(object.type)) {
+            models.push(sentry.unionOf(...object.type.map(type => this.typed(object, type, path))));
+        }
+        else if (object.type !== undefined) {
+            models.push(this.typed(object, object.type, path));
+        }
+        else if (Object.keys(object).some(key => [...JSONSchemaReader.TYPED_KEYWORDS.values()].some(keywords => keywords.includes(key)))) {
+            models.push(this.untyped(object, path));
+        }
+
+        if (models.length === 0) return sentry.unknown;
+        else if (models.length === 1) return models[0]!;
+        else return sentry.intersectionOf(...models);
     }
 
     /**
-     * オブジェクトが過剰な数のキーを持たない連想配列であることを実行時の検査において追加で要求するインスタンスを新しく生成します。
-     * @returns ランタイム条件付きインスタンス
+     * `anyOf`などのスキーマの配列を読みます。
      */
-    public exact(): NeoObjectModel<T> {
-        const that = this;
+    private subschemas(schemas: unknown, path: string): TypeModel<unknown>[] {
+        if (!Array.isArray(schemas) || schemas.length === 0) {
+            return [this.fail(schemas, path, "空でない配列である必要があります")];
+        }
 
-        return new (class extends NeoObjectModel<T> {
-            public override test(x: unknown): x is ExtractTypeInObjectOptionableValue<T> {
-                if (that.test(x)) {
-                    for (const key of Object.keys(x as object)) {
-                        if (!(key in that.object)) {
-                            return false;
-                        }
-                    }
+        return schemas.map((schema, index) => this.read(schema, childPathOf(path, index)));
+    }
 
-                    return true;
-                }
-                else return false;
+    /**
+     * `type`を持たないスキーマのキーワードを、それぞれが対象とする型の値にのみ適用します。
+     * <br>`allOf`の要素や`$ref`と並んだキーワードは`type`を省略して書かれることが多いためです。
+     */
+    private untyped(schema: JSONSchemaObject, path: string): TypeModel<unknown> {
+        const conditions: [TypeModel<unknown>, TypeModel<unknown>][] = [];
+
+        for (const [type, keywords] of JSONSchemaReader.TYPED_KEYWORDS) {
+            if (keywords.some(keyword => keyword in schema)) {
+                conditions.push([this.typed({}, type, path), this.typed(schema, type, path)]);
             }
-        })(this.object);
-    }
+        }
 
-    public getModelOfKey<const K extends keyof T>(key: K): T[K] {
-        return this.object[key];
+        return sentry.unknown.refine(x => conditions.every(([base, model]) => !base.test(x) || model.test(x)), "型ごとのキーワードの条件を満たしていません");
     }
 
-    public override toString(): string {
-        let string = "{";
+    private reference(ref: string, path: string): TypeModel<unknown> {
+        const resolved = this.resolved.get(ref);
 
-        let first = true;
-        for (const [key, model] of Object.entries(this.object)) {
-            if (!first) {
-                string += "; ";
-            }
+        if (ref !== "#" && !ref.startsWith("#/")) {
+            return this.fail(ref, path, "文書内の参照にのみ対応しています");
+        }
+        else if (resolved !== undefined) {
+            return resolved;
+        }
+        else if (this.resolving.has(ref)) {
+            return sentry.lazy(() => this.resolved.get(ref) ?? sentry.never);
+        }
 
-            let k: string = key;
+        let target: unknown = this.root;
 
-            if (key.includes(":")) {
-                k = "\"" + k + "\"";
-            }
-            else if (key.includes("\"")) {
-                k = k.replace(/"/g, "\\\"");
+        for (const token of ref.slice(2).split("/").filter(token => token.length > 0)) {
+            if (typeof target !== "object" || target === null) {
+                return this.fail(ref, path, "参照先が見つかりません");
             }
 
-            string += k;
+            target = (target as Record<string, unknown>)[token.replace(/~1/g, "/").replace(/~0/g, "~")];
+        }
 
-            if (model instanceof NeoOptionalModel) {
-                string += "?: ";
-            }
-            else {
-                string += ": ";
-            }
+        if (target === undefined) {
+            return this.fail(ref, path, "参照先が見つかりません");
+        }
 
-            string += model.toString();
+        this.resolving.add(ref);
+        const model = this.read(target, ref.slice(1));
+        this.resolving.delete(ref);
+        this.resolved.set(ref, model);
 
-            first = false;
+        return model;
+    }
+
+    private literal(value: unknown, path: string): TypeModel<unknown> {
+        switch (typeof value) {
+            case "boolean":
+            case "number":
+            case "string": return sentry.literalOf(value);
+            default: {
+                if (value === null) return sentry.null;
+                else return this.fail(value, path, "リテラルとして表現できない値です");
+            }
         }
+    }
 
-        string += "}";
+    private typed(schema: JSONSchemaObject, type: unknown, path: string): TypeModel<unknown> {
+        switch (type) {
+            case "null": return sentry.null;
+            case "boolean": return sentry.boolean;
+            case "number": return this.number(schema, sentry.number, path);
+            case "integer": return this.number(schema, sentry.number.int(), path);
+            case "string": return this.string(schema, path);
+            case "array": return this.array(schema, path);
+            case "object": return this.object(schema, path);
+            default: return this.fail(type, childPathOf(path, "type"), "未知の型です");
+        }
+    }
 
-        return string;
+    private length(value: unknown, path: string): number | undefined {
+        if (value === undefined) return undefined;
+        else if (Number.isSafeInteger(value) && (value as number) >= 0) return value as number;
+        else {
+            this.fail(value, path, "長さは0以上の整数である必要があります");
+            return undefined;
+        }
     }
 
-    public static newInstance<U extends Record<string | number | symbol, TypeModel<unknown>>>(object: U): NeoObjectModel<U> {
-        return new this(object);
+    private bound(value: unknown, path: string): number | undefined {
+        if (value === undefined || Number.isFinite(value)) return value as number | undefined;
+        else {
+            this.fail(value, path, "有限の数である必要があります");
+            return undefined;
+        }
     }
-}
 
-type DynamicFunction<A extends unknown[], R> = (...args: A) => R;
+    private number(schema: JSONSchemaObject, model: NumberModel, path: string): TypeModel<unknown> {
+        const min = this.bound(schema.minimum, childPathOf(path, "minimum"));
+        const max = this.bound(schema.maximum, childPathOf(path, "maximum"));
+        const exclusiveMin = this.bound(schema.exclusiveMinimum, childPathOf(path, "exclusiveMinimum"));
+        const exclusiveMax = this.bound(schema.exclusiveMaximum, childPathOf(path, "exclusiveMaximum"));
+        const divisor = this.bound(schema.multipleOf, childPathOf(path, "multipleOf"));
 
-type TypeModelsToFunc<A extends TypeModel<unknown>[], R extends TypeModel<unknown>> = DynamicFunction<TypeModelArrayToTuple<A>, R extends TypeModel<infer I> ? I : never>;
+        if (min !== undefined || max !== undefined) {
+            model = model.within(Range.minMax(min ?? -Infinity, max ?? Infinity));
+        }
 
-class NeoFunctionModel<A extends TypeModel<unknown>[], R extends TypeModel<unknown>> extends TypeModel<TypeModelsToFunc<A, R>> {
-    public constructor(private readonly args: A, private readonly returns: R) {
-        super();
+        if (exclusiveMin === 0) {
+            // positive()の出力と同じ形なので、構造を保ったまま読み戻す
+            model = model.positive();
+        }
+
+        if (divisor !== undefined) {
+            if (divisor <= 0) {
+                return this.fail(divisor, childPathOf(path, "multipleOf"), "multipleOfは0より大きい数である必要があります");
+            }
+
+            model = model.multipleOf(divisor);
+        }
+
+        // 開区間の境界はRangeで表せないため、条件として付け加える
+        let refined: TypeModel<unknown, number> = model;
+
+        if (exclusiveMin !== undefined && exclusiveMin !== 0) {
+            refined = refined.refine(x => x > exclusiveMin, `${exclusiveMin}より大きい数である必要があります`);
+        }
+
+        if (exclusiveMax !== undefined) {
+            refined = refined.refine(x => x < exclusiveMax, `${exclusiveMax}より小さい数である必要があります`);
+        }
+
+        return refined;
     }
 
-    public override test(x: unknown): x is TypeModelsToFunc<A, R> {
-        return typeof x === "function";
+    private string(schema: JSONSchemaObject, path: string): TypeModel<unknown> {
+        let model: StringModel = sentry.string;
+
+        const min = this.length(schema.minLength, childPathOf(path, "minLength"));
+        const max = this.length(schema.maxLength, childPathOf(path, "maxLength"));
+
+        if (min !== undefined || max !== undefined) {
+            model = model.withLength({ min: min ?? 0, max: max ?? Infinity });
+        }
+
+        if (schema.pattern !== undefined) {
+            if (typeof schema.pattern !== "string") {
+                return this.fail(schema.pattern, childPathOf(path, "pattern"), "patternは文字列である必要があります");
+            }
+
+            model = model.withPattern(new RegExp(schema.pattern, "u"));
+        }
+
+        return model;
     }
 
-    public getArgumentModelAt<const N extends number>(index: N): A[N] {
-        return this.args[index];
+    private array(schema: JSONSchemaObject, path: string): TypeModel<unknown> {
+        const min = this.length(schema.minItems, childPathOf(path, "minItems"));
+        const max = this.length(schema.maxItems, childPathOf(path, "maxItems"));
+
+        if (schema.prefixItems !== undefined) {
+            if (!Array.isArray(schema.prefixItems)) {
+                return this.fail(schema.prefixItems, childPathOf(path, "prefixItems"), "prefixItemsは配列である必要があります");
+            }
+
+            const length = schema.prefixItems.length;
+
+            if (!(schema.items === false || max === length) || (min ?? 0) < length) {
+                return this.fail(schema, path, "prefixItemsは要素数が固定されたtupleとしてのみ対応しています");
+            }
+
+            return sentry.tupleOf(...schema.prefixItems.map((item, index) => this.read(item, childPathOf(childPathOf(path, "prefixItems"), index))));
+        }
+
+        let model = sentry.arrayOf(schema.items === undefined ? sentry.unknown : this.read(schema.items, childPathOf(path, "items")));
+
+        if (min !== undefined || max !== undefined) {
+            model = model.withLength({ min: min ?? 0, max: max ?? Infinity });
+        }
+
+        if (schema.uniqueItems === true) {
+            model = model.unique();
+        }
+
+        return model;
     }
 
-    public getReturnValueModel(): R {
-        return this.returns;
+    private object(schema: JSONSchemaObject, path: string): TypeModel<unknown> {
+        // recordOfやstructOfは配列も受け入れるが、JSON Schemaのobjectは配列を含まない
+        return sentry.intersectionOf(
+            sentry.unknown.refine(x => !Array.isArray(x), "配列ではないオブジェクトである必要があります"),
+            this.properties(schema, path)
+        );
     }
 
-    public override toString(): string {
-        let s: string = "(";
+    private properties(schema: JSONSchemaObject, path: string): TypeModel<unknown> {
+        const { properties, additionalProperties } = schema;
+        const required: unknown = schema.required ?? [];
 
-        let first = true;
-        for (const arg of this.args) {
-            if (!first) s += ", ";
-            s += arg.toString();
-            first = false;
+        if (!Array.isArray(required) || !required.every(key => typeof key === "string")) {
+            return this.fail(required, childPathOf(path, "required"), "requiredは文字列の配列である必要があります");
         }
 
-        s += ") => ";
+        if (properties === undefined && required.length === 0 && additionalProperties !== false) {
+            const keyModel = schema.propertyNames === undefined ? sentry.string : this.read(schema.propertyNames, childPathOf(path, "propertyNames"));
+            const valueModel = additionalProperties === undefined ? sentry.unknown : this.read(additionalProperties, childPathOf(path, "additionalProperties"));
+            return sentry.recordOf(keyModel as TypeModel<string>, valueModel);
+        }
+        else if (schema.propertyNames !== undefined) {
+            return this.fail(schema.propertyNames, childPathOf(path, "propertyNames"), "propertiesと併用するpropertyNamesには対応していません");
+        }
 
-        s += this.returns;
+        const object: Record<string, TypeModel<unknown>> = {};
 
-        return s;
-    }
+        for (const [key, property] of Object.entries(properties ?? {})) {
+            const model = this.read(property, childPathOf(childPathOf(path, "properties"), key));
+            object[key] = required.includes(key) ? model : sentry.optionalOf(model);
+        }
 
-    public static newInstance<A extends TypeModel<unknown>[], R extends TypeModel<unknown>>(args: A, returns: R): NeoFunctionModel<A, R> {
-        return new NeoFunctionModel(args, returns);
+        for (const key of required) {
+            if (!(key in object)) {
+                object[key] = sentry.unknown;
+            }
+        }
+
+        const model = sentry.structOf(object);
+
+        if (additionalProperties === undefined || additionalProperties === true) {
+            return model;
+        }
+        else if (additionalProperties === false) {
+            return model.exact();
+        }
+        else {
+            return model.catchall(this.read(additionalProperties, childPathOf(path, "additionalProperties")));
+        }
     }
-}
 
-/**
- * `TypeSentry`が投げるエラー
- */
-class TypeSentryError extends TypeError {
-    public constructor(message: string) {
-        super(message);
+    /**
+     * JSON Schemaから`TypeModel`を組み立てます。
+     * @param schema JSON Schema
+     * @returns スキーマに対応する`TypeModel`
+     * @throws `TypeSentryError` 未対応のキーワードや不正なスキーマが含まれるとき (`issues`にその全ての位置を持つ)
+     */
+    public static read(schema: JSONSchema): TypeModel<unknown> {
+        const reader = new JSONSchemaReader(schema);
+        const model = reader.reference("#", "");
+
+        if (reader.unsupported.length > 0) {
+            throw new TypeSentryError(
+                `JSON Schemaからの変換に失敗しました`
+                + reader.unsupported.map(issue => `\n    at '${issue.path}': ${issue.message}`).join(""),
+                reader.unsupported
+            );
+        }
+
+        return model;
     }
 }
 
@@ -1067,7 +3595,7 @@ export class TypeSentry {
      * @param type 配列の要素の型を表現する`TypeModel`
      * @returns 配列型を表現する`TypeModel`
      */
-    public arrayOf<U>(type: TypeModel<U>): ArrayModel<U> {
+    public arrayOf<U, V>(type: TypeModel<U, V>): ArrayModel<U, V> {
         return new ArrayModel(type);
     }
 
@@ -1086,7 +3614,7 @@ export class TypeSentry {
      * @param valueType `Map`の値の型を表現する`TypeModel`
      * @returns `Map`型を表現する`TypeModel`
      */
-    public mapOf<K, V>(keyType: TypeModel<K>, valueType: TypeModel<V>): MapModel<K, V> {
+    public mapOf<K, V, KO, VO>(keyType: TypeModel<K, KO>, valueType: TypeModel<V, VO>): MapModel<K, V, KO, VO> {
         return new MapModel(keyType, valueType);
     }
 
@@ -1095,7 +3623,7 @@ export class TypeSentry {
      * @param valueType `Set`の値の型を表現する`TypeModel`
      * @returns `Set`型を表現する`TypeModel`
      */
-    public setOf<T>(valueType: TypeModel<T>): SetModel<T> {
+    public setOf<T, O>(valueType: TypeModel<T, O>): SetModel<T, O> {
         return new SetModel(valueType);
     }
 
@@ -1105,7 +3633,7 @@ export class TypeSentry {
      * @param valueType `Record`の値の型を表現する`TypeModel`
      * @returns `Record`型を表現する`TypeModel`
      */
-    public recordOf<K extends string | number | symbol, V>(keyType: TypeModel<K>, valueType: TypeModel<V>): RecordModel<K, V> {
+    public recordOf<K extends string | number | symbol, V, KO extends string | number | symbol, VO>(keyType: TypeModel<K, KO>, valueType: TypeModel<V, VO>): RecordModel<K, V, KO, VO> {
         return new RecordModel(keyType, valueType);
     }
 
@@ -1114,10 +3642,21 @@ export class TypeSentry {
      * @param types 合併型の各要素の型を表現する`TypeModel`
      * @returns 合併型を表現する`TypeModel`
      */
-    public unionOf<U extends TypeModel<unknown>[]>(...types: U): UnionModel<ExtractTypes<U>> {
+    public unionOf<U extends TypeModel<unknown>[]>(...types: U): UnionModel<ExtractTypes<U>, ExtractOutputTypes<U>> {
         return UnionModel.newInstance(...types);
     }
 
+    /**
+     * タグ付き合併型
+     * <br>`key`の値で要素を一つに絞ってから検査します。各要素の型は`key`を含んでいなくても構いません。
+     * @param key タグのキー
+     * @param models タグの値と`structOf()`による型の組
+     * @returns タグ付き合併型を表現する`TypeModel`
+     */
+    public discriminatedUnionOf<L extends string, U extends StructModelRecord>(key: L, models: U): DiscriminatedUnionModel<L, U> {
+        return DiscriminatedUnionModel.newInstance(key, models);
+    }
+
     /**
      * 交差型
      * @param types 交差型の各要素の型を表現する`TypeModel`
@@ -1132,7 +3671,7 @@ export class TypeSentry {
      * @param types `undefindable`型でラップする型の`TypeModel`
      * @returns `undefindable`型を表現する`TypeModel`
      */
-    public undefindableOf<U>(type: TypeModel<U>): UndefindableModel<U> {
+    public undefindableOf<U, V>(type: TypeModel<U, V>): UndefindableModel<U, V> {
         return UndefindableModel.newInstance(type);
     }
 
@@ -1142,7 +3681,7 @@ export class TypeSentry {
      * @param types `optional`型でラップする型の`TypeModel`
      * @returns `optional`型を表現する`TypeModel`
      */
-    public optionalOf<U>(type: TypeModel<U>): NeoOptionalModel<U> {
+    public optionalOf<U, V>(type: TypeModel<U, V>): NeoOptionalModel<U, V> {
         return NeoOptionalModel.newInstance(type);
     }
 
@@ -1151,7 +3690,7 @@ export class TypeSentry {
      * @param types `nulleable`型でラップする型の`TypeModel`
      * @returns `nullable`型を表現する`TypeModel`
      */
-    public nullableOf<U>(type: TypeModel<U>): NullableModel<U> {
+    public nullableOf<U, V>(type: TypeModel<U, V>): NullableModel<U, V> {
         return NullableModel.newInstance(type);
     }
 
@@ -1184,7 +3723,8 @@ export class TypeSentry {
     }
 
     /**
-     * 任意の関数型を表現する型(実行時チェックは当然ない)
+     * 任意の関数型を表現する型
+     * <br>`test()`は関数であることのみを検査します。引数と戻り値の実行時チェックは`implement()`で包んだ関数が行います。
      * @param parameters 引数型の配列
      * @param returnValue 戻り値の型
      * @returns 関数型の`TypeModel`
@@ -1192,6 +3732,49 @@ export class TypeSentry {
     public functionOf<const A extends TypeModel<unknown>[], R extends TypeModel<unknown>>(parameters: A, returnValue: R): NeoFunctionModel<A, R> {
         return NeoFunctionModel.newInstance(parameters, returnValue);
     }
+
+    /**
+     * `Promise`を表現する型
+     * <br>解決される値は`parse()`や`functionOf().implement()`の戻り値を通して検査されます。
+     * @param type 解決される値の型
+     * @returns `Promise`型の`TypeModel`
+     */
+    public promiseOf<U, V>(type: TypeModel<U, V>): PromiseModel<U, V> {
+        return PromiseModel.newInstance(type);
+    }
+
+    /**
+     * 初めて使われるときに解決される型
+     * <br>自身を参照する変数を関数内で参照することで、再帰的な型を表現できます。
+     * @param getter 型を返す関数
+     * @returns 遅延評価される`TypeModel`
+     */
+    public lazy<U, V = U>(getter: () => TypeModel<U, V>): LazyModel<U, V> {
+        return LazyModel.newInstance(getter);
+    }
+
+    /**
+     * 名前付きの再帰的な型
+     * <br>`definition`に渡される型が自己参照となり、`toString()`では`name`として表示されます。
+     * @param name 型の名前
+     * @param definition 自己参照を受け取り型を返す関数
+     * @returns 再帰的な型の`TypeModel`
+     */
+    public recursive<U, V = U>(name: string, definition: (self: TypeModel<U, V>) => TypeModel<U, V>): LazyModel<U, V> {
+        let model: TypeModel<U, V> | undefined;
+        const self: LazyModel<U, V> = LazyModel.newInstance(() => model ??= definition(self), name);
+        return self;
+    }
+
+    /**
+     * JSON Schema (draft 2020-12) から型を組み立てる
+     * @param schema JSON Schema
+     * @returns スキーマが表現する型の`TypeModel`
+     * @throws `TypeSentryError` 対応していないキーワードや不正な値が含まれるとき
+     */
+    public fromJSONSchema(schema: JSONSchema): TypeModel<unknown> {
+        return JSONSchemaReader.read(schema);
+    }
 }
 
 /**
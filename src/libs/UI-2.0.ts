@@ -4,9 +4,10 @@
  */
 
 import { NumberRange } from "@minecraft/common";
-import { Player, RawMessage, system } from "@minecraft/server";
+import { Player, RawMessage, system, world } from "@minecraft/server";
 import { ActionFormData, ModalFormData, MessageFormData, FormCancelationReason } from "@minecraft/server-ui";
-import { sentry, TypeModel } from "./TypeSentry";
+import { sentry, TypeModel, ValidationResult } from "./TypeSentry";
+import { mcsentry } from "./MinecraftTypeSentry";
 
 const numberRangeModel: TypeModel<NumberRange> = sentry.structOf({
     min: sentry.number.nonNaN(),
@@ -18,6 +19,115 @@ const dropdownOptionModel: TypeModel<DropdownOption> = sentry.structOf({
     text: sentry.unionOf(sentry.string, sentry.structOf({}))
 });
 
+/**
+ * `PlayerDependent<T>`を検査するモデルを返します。
+ * @param model `T`のモデル
+ */
+function playerDependentModelOf<T>(model: TypeModel<T>): TypeModel<PlayerDependent<T>> {
+    const functionModel: TypeModel<(player: Player) => T> = sentry.functionOf([sentry.classOf(Player)], model);
+    return sentry.unionOf(model, functionModel);
+}
+
+const textModel: TypeModel<PlayerDependent<string | RawMessage>> = playerDependentModelOf(sentry.unionOf(sentry.string, sentry.structOf({})));
+
+/**
+ * 固定の値、またはプレイヤーから値を計算する関数
+ */
+export type PlayerDependent<T> = T | ((player: Player) => T);
+
+/**
+ * `T`のプロパティのうち、プレイヤーから計算される値を計算後の値に置き換えた型
+ */
+export type PlayerResolved<T> = T extends unknown ? {
+    [K in keyof T]: Exclude<T[K], (player: Player) => unknown>;
+} : never;
+
+/**
+ * プレイヤーから値を計算します。
+ * @param value 固定の値、またはプレイヤーから値を計算する関数
+ * @param player プレイヤー
+ */
+function resolveFor<T>(value: PlayerDependent<T>, player: Player): T {
+    return (typeof value === "function") ? (value as (player: Player) => T)(player) : value;
+}
+
+/**
+ * 要素のプロパティのうち、プレイヤーから計算されるものを全て計算した複製を返します。
+ * @param element 要素
+ * @param player プレイヤー
+ */
+function resolveElementFor<T extends object>(element: T, player: Player): PlayerResolved<T> {
+    const resolved: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(element)) {
+        resolved[key] = resolveFor(value, player);
+    }
+
+    return resolved as PlayerResolved<T>;
+}
+
+/**
+ * 複数の文字列を改行で繋げた`RawMessage`を返します。
+ * @param texts 文字列
+ */
+function rawMessageOf(texts: readonly (string | RawMessage)[]): RawMessage {
+    return {
+        rawtext: texts.map((_, i) => {
+            const rawMessage = (typeof _ === "string") ? { text: _ } : _;
+
+            if (i < texts.length - 1) return {
+                rawtext: [
+                    rawMessage,
+                    { text: "\n" }
+                ]
+            };
+            else return rawMessage;
+        })
+    };
+}
+
+/**
+ * 文字列または`RawMessage`の`text`を連結した文字列を返します。
+ * <br>`translate`や`score`などのクライアントで解決される部分は含まれません。
+ * @param text 文字列または`RawMessage`
+ */
+function plainTextOf(text: string | RawMessage): string {
+    if (typeof text === "string") return text;
+    else return (text.text ?? "") + (text.rawtext ?? []).map(plainTextOf).join("");
+}
+
+/**
+ * `request()`を置き換えてフォームを開くメソッドのキー
+ * <br>`ServerFormNavigator`がページのフォームに手を加えずに表示するために使います。
+ */
+const SYMBOL_FOR_OPEN = Symbol();
+
+/**
+ * 一度の表示に限ってボタンを加えてActionFormを開くメソッドのキー
+ */
+const SYMBOL_FOR_OPEN_WITH_BUTTONS = Symbol();
+
+/**
+ * `SYMBOL_FOR_OPEN`でフォームを開いた呼び出し元が、閉じられた際の処理に加わるための設定
+ */
+interface ServerFormCancelation {
+    /**
+     * `ServerFormCancelEvent.reopen()`でフォームを開き直す関数
+     */
+    readonly reopen: (player: Player) => void;
+
+    /**
+     * 登録されたコールバック関数の後に呼び出される関数
+     * <br>`gaveUp`は`retryOnBusy()`による再試行を諦めた後であれば真になります。
+     */
+    readonly callbackFn: (event: ServerFormCancelEvent, gaveUp: boolean) => void;
+}
+
+/**
+ * モデルから生成したフォームの送信値を任意の値に変換するメソッドのキー
+ */
+const SYMBOL_FOR_FROM_MODEL = Symbol();
+
 /**
  * このライブラリが投げる例外のクラス
  */
@@ -57,8 +167,9 @@ export class ServerFormElementPredicates {
      */
     public static isActionButton(value: unknown): value is ActionButton {
         return sentry.structOf({
-            name: sentry.unionOf(sentry.string, sentry.structOf({})),
-            iconPath: sentry.undefindableOf(sentry.string),
+            name: textModel,
+            iconPath: sentry.undefindableOf(playerDependentModelOf(sentry.string)),
+            visible: playerDependentModelOf(sentry.boolean),
             callbacks: sentry.setOf(sentry.functionOf([sentry.classOf(Player)], sentry.void)),
             tags: sentry.arrayOf(sentry.string),
             type: sentry.string
@@ -72,7 +183,8 @@ export class ServerFormElementPredicates {
     public static isModalFormElement(value: unknown): value is ModalFormElement {
         return sentry.structOf({
             id: sentry.string,
-            label: sentry.unionOf(sentry.string, sentry.structOf({})),
+            label: textModel,
+            visible: playerDependentModelOf(sentry.boolean),
             type: sentry.string
         }).test(value) && value.type === ElementType.MODAL_FORM_ELEMENT;
     }
@@ -84,7 +196,7 @@ export class ServerFormElementPredicates {
     public static isToggle(value: unknown): value is ModalFormToggle {
         return ServerFormElementPredicates.isModalFormElement(value)
             && sentry.structOf({
-                defaultValue: sentry.boolean
+                defaultValue: playerDependentModelOf(sentry.boolean)
             }).test(value);
     }
 
@@ -97,7 +209,7 @@ export class ServerFormElementPredicates {
             && sentry.structOf({
                 range: numberRangeModel,
                 step: sentry.number,
-                defaultValue: sentry.number
+                defaultValue: playerDependentModelOf(sentry.number)
             }).test(value)
     }
 
@@ -108,8 +220,8 @@ export class ServerFormElementPredicates {
     public static isDropdown(value: unknown): value is ModalFormDropdown {
         return ServerFormElementPredicates.isModalFormElement(value)
             && sentry.structOf({
-                list: sentry.arrayOf(dropdownOptionModel),
-                defaultValueIndex: sentry.int
+                list: playerDependentModelOf(sentry.arrayOf(dropdownOptionModel)),
+                defaultValueIndex: playerDependentModelOf(sentry.int)
             }).test(value)
     }
 
@@ -120,8 +232,8 @@ export class ServerFormElementPredicates {
     public static isTextField(value: unknown): value is ModalFormTextField {
         return ServerFormElementPredicates.isModalFormElement(value)
             && sentry.structOf({
-                placeHolder: sentry.unionOf(sentry.string, sentry.structOf({})),
-                defaultValue: sentry.string
+                placeHolder: textModel,
+                defaultValue: playerDependentModelOf(sentry.string)
             }).test(value)
     }
 
@@ -131,7 +243,7 @@ export class ServerFormElementPredicates {
      */
     public static isMessageButton(value: unknown): value is MessageButton {
         return sentry.structOf({
-            name: sentry.unionOf(sentry.string, sentry.structOf({})),
+            name: textModel,
             callbacks: sentry.setOf(sentry.functionOf([sentry.classOf(Player)], sentry.void)),
             type: sentry.string
         }).test(value) && value.type === ElementType.MESSAGE_BUTTON
@@ -178,8 +290,8 @@ export class ServerFormElementPredicates {
 /**
  * フォームを作成するためのクラスが継承するクラス
  */
-export abstract class ServerFormWrapper {
-    protected titleText: string | RawMessage = "";
+export abstract class ServerFormWrapper<R extends ServerFormResult = ServerFormResult> {
+    protected titleText: PlayerDependent<string | RawMessage> = "";
 
     protected readonly cancelationCallbacks: Map<keyof typeof ServerFormCancelationCause, Set<(event: ServerFormCancelEvent) => void>> = new Map([
         [ServerFormCancelationCause.Any, new Set()],
@@ -189,6 +301,8 @@ export abstract class ServerFormWrapper {
 
     protected readonly errorCatcherCallbacks: Set<(event: ServerFormCatchErrorEvent) => void> = new Set();
 
+    private retryOptions: ServerFormRetryOptions | undefined = undefined;
+
     /**
      * `ServerFormWrapper`のインスタンスを生成します。
      */
@@ -199,7 +313,7 @@ export abstract class ServerFormWrapper {
      * @param text タイトル
      * @returns `this`
      */
-    public title(text: string | RawMessage): this {
+    public title(text: PlayerDependent<string | RawMessage>): this {
         this.titleText = text;
         return this;
     }
@@ -225,28 +339,380 @@ export abstract class ServerFormWrapper {
         return this;
     }
 
+    /**
+     * プレイヤーがフォームを開くことができる状況下になかったとき(`UserBusy`)に、フォームを自動で開き直すようにします。<br>
+     * 再試行を諦めた場合にのみ`onCancel()`のコールバック関数が呼び出されます。<br>
+     * プレイヤーが退出した場合は再試行を中止し、コールバック関数は呼び出されません。<br>
+     * 複数のフォームからなる`ActionFormListWrapper`では、最初からではなく閉じられたフォームから再開します。<br>
+     * 検査に失敗して開き直された`ModalFormWrapper`では、エラーメッセージと入力値を保ったまま開き直します。
+     * @param options 再試行の設定
+     * @returns `this`
+     */
+    public retryOnBusy(options: ServerFormRetryOptions = {}): this {
+        this.retryOptions = options;
+        return this;
+    }
+
+    /**
+     * フォームが閉じられた際のコールバック関数を呼び出します。
+     * @param player プレイヤー
+     * @param reason 閉じた理由
+     * @param cancelation 呼び出し元の閉じた際の処理
+     * @param gaveUp `retryOnBusy()`による再試行を諦めた後であれば真
+     */
+    private cancel(player: Player, reason: keyof typeof ServerFormCancelationCause, cancelation: ServerFormCancelation | undefined, gaveUp: boolean): void {
+        const that = this;
+        let reopened = false;
+
+        const cancelEvent: ServerFormCancelEvent = {
+            player,
+            reason,
+            reopen() {
+                if (reopened) return;
+                reopened = true;
+
+                system.run(() => {
+                    if (cancelation === undefined) that.open(player);
+                    else cancelation.reopen(player);
+                });
+            }
+        };
+
+        this.cancelationCallbacks.get("Any")!.forEach(callbackFn => {
+            callbackFn(cancelEvent);
+        });
+
+        if (reason === "UserBusy") {
+            this.cancelationCallbacks.get("UserBusy")!.forEach(callbackFn => {
+                callbackFn(cancelEvent);
+            });
+        }
+        else if (reason === "UserClosed") {
+            this.cancelationCallbacks.get("UserClosed")!.forEach(callbackFn => {
+                callbackFn(cancelEvent);
+            });
+        }
+
+        cancelation?.callbackFn(cancelEvent, gaveUp);
+    }
+
+    /**
+     * フォームを表示し、閉じられた場合は必要に応じて再試行します。
+     * @param player プレイヤー
+     * @param attempts これまでに表示した回数
+     * @param startTick 最初に表示したティック
+     * @param request フォームを表示する関数
+     * @param cancelation 呼び出し元の閉じた際の処理
+     */
+    private attempt(player: Player, attempts: number, startTick: number, request: (player: Player) => Promise<R>, cancelation: ServerFormCancelation | undefined): Promise<R> {
+        let promise: Promise<R>;
+
+        try {
+            this.validate();
+            promise = request(player);
+        }
+        catch (error) {
+            promise = Promise.reject(error);
+        }
+
+        return promise.then(result => {
+            if (result.kind === "canceled") {
+                if (result.reason === "UserBusy" && this.retryOptions !== undefined) {
+                    return this.retry(player, attempts + 1, startTick, result, this.retryOptions, request, cancelation);
+                }
+
+                this.cancel(player, result.reason, cancelation, false);
+            }
+
+            return result;
+        });
+    }
+
+    /**
+     * 間隔を空けてフォームを再度表示します。
+     * @param player プレイヤー
+     * @param attempts これまでに表示した回数
+     * @param startTick 最初に表示したティック
+     * @param result 直前の表示の結果
+     * @param options 再試行の設定
+     * @param request フォームを表示する関数
+     * @param cancelation 呼び出し元の閉じた際の処理
+     */
+    private retry(player: Player, attempts: number, startTick: number, result: R, options: ServerFormRetryOptions, request: (player: Player) => Promise<R>, cancelation: ServerFormCancelation | undefined): Promise<R> {
+        const { maxAttempts = Infinity, interval = 20, timeout = Infinity } = options;
+
+        if (attempts >= maxAttempts || system.currentTick + interval - startTick > timeout) {
+            options.onGiveUp?.({ player, attempts });
+            this.cancel(player, "UserBusy", cancelation, true);
+            return Promise.resolve(result);
+        }
+
+        return new Promise<R>((resolve, reject) => {
+            const leaveCallback = world.afterEvents.playerLeave.subscribe(event => {
+                if (event.playerId !== player.id) return;
+
+                world.afterEvents.playerLeave.unsubscribe(leaveCallback);
+                system.clearRun(runId);
+                resolve(result);
+            });
+
+            const runId = system.runTimeout(() => {
+                world.afterEvents.playerLeave.unsubscribe(leaveCallback);
+
+                if (!player.isValid) {
+                    resolve(result);
+                    return;
+                }
+
+                this.attempt(player, attempts, startTick, request, cancelation).then(resolve, reject);
+            }, interval);
+        });
+    }
+
+    /**
+     * フォームを表示し、応答に応じてコールバック関数を呼び出します。
+     * @param player プレイヤー
+     * @returns フォームの結果に解決される`Promise`
+     */
+    protected abstract request(player: Player): Promise<R>;
+
+    /**
+     * 一回の表示(`show()`や`open()`)の間、再試行を含めて使われるフォームを表示する関数を生成します。<br>
+     * 複数の画面からなり、再試行で閉じられた画面から再開するフォームはこれをオーバーライドします。
+     */
+    protected createRequest(): (player: Player) => Promise<R> {
+        return player => this.request(player);
+    }
+
+    /**
+     * フォームの設定に不備がないかを検査します。
+     * @throws 不備がある場合、`ServerFormError`を投げます。
+     */
+    protected validate(): void {}
+
+    /**
+     * フォームを表示し、その結果を返します。<br>
+     * 登録されたコールバック関数はこれまで通り呼び出されます。
+     * @param player プレイヤー
+     * @returns フォームの結果に解決される`Promise`
+     * @throws 例外が発生した場合、`ServerFormError`で拒否されます。
+     */
+    public show(player: Player): Promise<R> {
+        return this.showWith(player, this.createRequest(), undefined);
+    }
+
+    /**
+     * `request`でフォームを表示し、その結果を返します。
+     * @param player プレイヤー
+     * @param request フォームを表示する関数
+     * @param cancelation 呼び出し元の閉じた際の処理
+     */
+    private showWith(player: Player, request: (player: Player) => Promise<R>, cancelation: ServerFormCancelation | undefined): Promise<R> {
+        return this.attempt(player, 0, system.currentTick, request, cancelation).catch(error => {
+            const serverFormError = (error instanceof ServerFormError) ? error : new ServerFormError(error);
+
+            this.errorCatcherCallbacks.forEach(catcher => {
+                catcher({
+                    player,
+                    error: serverFormError
+                });
+            });
+
+            throw serverFormError;
+        });
+    }
+
     /**
      * フォームを表示します。
      * @param player プレイヤー
+     * @throws フォームの設定に不備がある場合、`ServerFormError`を投げます。
+     */
+    public open(player: Player): void {
+        this[SYMBOL_FOR_OPEN](player);
+    }
+
+    /**
+     * `open()`と同様にフォームを表示し、閉じられた際の処理に`cancelation`を加えます。
+     * @param player プレイヤー
+     * @param cancelation 呼び出し元の閉じた際の処理 (`ServerFormCancelEvent.reopen()`もこれに従う)
+     * @param request フォームを表示する関数 (デフォルトは`createRequest()`が生成する関数)
+     */
+    public [SYMBOL_FOR_OPEN](player: Player, cancelation?: ServerFormCancelation, request: (player: Player) => Promise<R> = this.createRequest()): void {
+        // 設定の不備は Promise の拒否にせず、呼び出し元にそのまま投げる
+        this.validate();
+
+        const promise = this.showWith(player, request, cancelation);
+
+        if (this.errorCatcherCallbacks.size > 0) {
+            // 例外は show() 内で onCatch のコールバックに渡されている
+            promise.catch(() => {});
+        }
+    }
+}
+
+/**
+ * `ServerFormWrapper.retryOnBusy()`の設定
+ */
+export interface ServerFormRetryOptions {
+    /**
+     * 最初の表示を含めた最大の表示回数 (デフォルトは無制限)
+     */
+    readonly maxAttempts?: number;
+
+    /**
+     * 再試行の間隔 (ティック、デフォルトは`20`)
+     */
+    readonly interval?: number;
+
+    /**
+     * 最初の表示から再試行を諦めるまでの時間 (ティック、デフォルトは無制限)
+     */
+    readonly timeout?: number;
+
+    /**
+     * 再試行を諦めたときに呼び出されるコールバック関数
+     */
+    onGiveUp?(event: ServerFormGiveUpEvent): void;
+}
+
+/**
+ * フォームの再試行を諦めたときに発火するイベントのコールバックに渡される引数
+ */
+export interface ServerFormGiveUpEvent {
+    /**
+     * プレイヤー
+     */
+    readonly player: Player;
+
+    /**
+     * フォームを表示した回数
+     */
+    readonly attempts: number;
+}
+
+/**
+ * フォームのボタンが押されたことを表す結果
+ */
+export interface ServerFormPushedResult<T extends ActionButton | MessageButton> {
+    readonly kind: "pushed";
+
+    /**
+     * 押されたボタン
+     */
+    readonly button: T;
+}
+
+/**
+ * フォームが送信されたことを表す結果
+ */
+export interface ServerFormSubmittedResult<V extends ModalFormValues = ModalFormValues> {
+    readonly kind: "submitted";
+
+    /**
+     * 要素のIDをキーとする入力値
+     */
+    readonly values: V;
+}
+
+/**
+ * 一覧の項目が選ばれたことを表す結果
+ */
+export interface ServerFormSelectedResult<T> {
+    readonly kind: "selected";
+
+    /**
+     * 選ばれた項目
+     */
+    readonly item: T;
+}
+
+/**
+ * フォームが閉じられたことを表す結果
+ */
+export interface ServerFormCanceledResult {
+    readonly kind: "canceled";
+
+    /**
+     * 閉じた理由
      */
-    public abstract open(player: Player): void;
+    readonly reason: keyof typeof ServerFormCancelationCause;
 }
 
+/**
+ * `ServerFormWrapper.show()`が解決する結果
+ */
+export type ServerFormResult = ServerFormPushedResult<ActionButton | MessageButton> | ServerFormSubmittedResult | ServerFormSelectedResult<unknown> | ServerFormCanceledResult;
+
+/**
+ * `ActionFormWrapper.show()`が解決する結果
+ */
+export type ActionFormResult = ServerFormPushedResult<PlayerResolved<ActionButton>> | ServerFormCanceledResult;
+
+/**
+ * `ModalFormWrapper.show()`が解決する結果
+ */
+export type ModalFormResult<V extends ModalFormValues = ModalFormValues> = ServerFormSubmittedResult<V> | ServerFormCanceledResult;
+
+/**
+ * `ActionFormListWrapper.show()`が解決する結果
+ */
+export type ActionFormListResult<T> = ServerFormSelectedResult<T> | ServerFormCanceledResult;
+
+/**
+ * `MessageFormWrapper.show()`が解決する結果
+ */
+export type MessageFormResult = ServerFormPushedResult<PlayerResolved<MessageButton>> | ServerFormCanceledResult;
+
+/**
+ * ModalFormに入力された値を要素のIDで引けるようにしたもの
+ */
+export type ModalFormValues = Record<string, boolean | number | string | SelectedDropdownValue>;
+
+/**
+ * `V`のうち、値が`T`であるキーの型
+ */
+export type ModalFormValueKeys<V extends ModalFormValues, T> = {
+    [P in keyof V]-?: T extends V[P] ? P : never;
+}[keyof V] & string;
+
+/**
+ * 要素のIDが型として追跡されていない`V` (`{}`や`ModalFormValues`) であれば`true`となる型
+ * <br>メソッドチェーンを用いずに要素を追加したフォームが該当します。
+ */
+type IsUntrackedModalFormValues<V extends ModalFormValues> = [keyof V] extends [never] ? true : string extends keyof V ? true : false;
+
+/**
+ * 値が`T`である要素のIDの型 (IDが追跡されていなければ任意の文字列)
+ */
+export type ModalFormInputId<V extends ModalFormValues, T> = IsUntrackedModalFormValues<V> extends true ? string : ModalFormValueKeys<V, T>;
+
+/**
+ * IDから取得される値`T`の型 (IDが追跡されていなければ`undefined`の可能性がある)
+ */
+export type ModalFormInput<V extends ModalFormValues, T> = IsUntrackedModalFormValues<V> extends true ? T | undefined : T;
+
+/**
+ * `V`にID`K`の値`T`を加えた型
+ */
+type ModalFormValuesWith<V extends ModalFormValues, K extends string, T> = {
+    [P in keyof V | K]: P extends K ? T : P extends keyof V ? V[P] : never;
+};
+
 export interface Decoratable {
     /**
      * フォームにラベルを追加します。
      */
-    label(label: Label): Decoratable;
+    label(label: LabelInput): Decoratable;
 
     /**
      * フォームにヘッダーを追加します。
      */
-    header(header: Header): Decoratable;
+    header(header: HeaderInput): Decoratable;
 
     /**
      * フォームに区切りを追加します。
      */
-    divider(divider: Divider): Decoratable;
+    divider(divider: DividerInput): Decoratable;
 }
 
 export enum ElementType {
@@ -264,16 +730,21 @@ export interface Element {
 
 export interface Decoration extends Element {
     readonly id: string;
+
+    /**
+     * 要素を表示するか
+     */
+    visible: PlayerDependent<boolean>;
 }
 
 export interface Label extends Decoration {
-    text: string | RawMessage;
+    text: PlayerDependent<string | RawMessage>;
 
     readonly type: "LABEL";
 }
 
 export interface Header extends Decoration {
-    text: string | RawMessage;
+    text: PlayerDependent<string | RawMessage>;
 
     readonly type: "HEADER";
 }
@@ -284,14 +755,19 @@ export interface Divider extends Decoration {
 
 export interface DecorationInput {
     id: string;
+
+    /**
+     * 要素を表示するか (デフォルトは常に表示)
+     */
+    visible?: PlayerDependent<boolean>;
 }
 
 export interface LabelInput extends DecorationInput {
-    text: string | RawMessage;
+    text: PlayerDependent<string | RawMessage>;
 }
 
 export interface HeaderInput extends DecorationInput {
-    text: string | RawMessage;
+    text: PlayerDependent<string | RawMessage>;
 }
 
 export interface DividerInput extends DecorationInput {}
@@ -312,12 +788,12 @@ export interface ActionPushable {
 /**
  * 送信ボタンのあるフォームのクラスが実装するインターフェース
  */
-export interface Submittable {
+export interface Submittable<V extends ModalFormValues = ModalFormValues> {
     /**
      * 送信ボタンの設定を行います。
      * @param button 送信ボタン
      */
-    submitButton(button: SubmitButtonInput): Submittable;
+    submitButton(button: SubmitButtonInput<V>): Submittable<V>;
 }
 
 /**
@@ -347,7 +823,7 @@ export interface ServerFormCancelEvent {
     readonly reason: keyof typeof ServerFormCancelationCause;
 
     /**
-     * このフォームを再度開く
+     * このフォームを再度開く (一度のイベントで何度呼び出しても開くのは一度だけ)
      */
     reopen(): void;
 }
@@ -377,43 +853,48 @@ export interface ServerFormActionButtonPushEvent {
     readonly player: Player;
 
     /**
-     * ボタンの名前
+     * ボタン (プレイヤーから計算される値は計算後のもの)
      */
-    readonly button: ActionButton;
+    readonly button: PlayerResolved<ActionButton>;
 }
 
 /**
  * フォームが送信されたときに発火するイベントのコールバックに渡される引数
  */
-export interface ModalFormSubmitEvent {
+export interface ModalFormSubmitEvent<V extends ModalFormValues = ModalFormValues> {
     /**
      * プレイヤー
      */
     readonly player: Player;
 
+    /**
+     * 要素のIDをキーとする入力値
+     */
+    readonly values: V;
+
     /**
      * 特定のIDのトグルを取得します。
      * @param id 要素のID
      */
-    getToggleInput(id: string): boolean | undefined;
+    getToggleInput(id: ModalFormInputId<V, boolean>): ModalFormInput<V, boolean>;
 
     /**
      * 特定のIDのスライダーを取得します。
      * @param id 要素のID
      */
-    getSliderInput(id: string): number | undefined;
+    getSliderInput(id: ModalFormInputId<V, number>): ModalFormInput<V, number>;
 
     /**
      * 特定のIDのドロップダウンを取得します。
      * @param id 要素のID
      */
-    getDropdownInput(id: string): SelectedDropdownValue | undefined;
+    getDropdownInput(id: ModalFormInputId<V, SelectedDropdownValue>): ModalFormInput<V, SelectedDropdownValue>;
 
     /**
      * 特定のIDのテキストフィールドを取得します。
      * @param id 要素のID
      */
-    getTextFieldInput(id: string): string | undefined;
+    getTextFieldInput(id: ModalFormInputId<V, string>): ModalFormInput<V, string>;
 
     /**
      * 入力された値を順にすべて返します。
@@ -431,9 +912,9 @@ export interface ServerFormMessageButtonPushEvent {
     readonly player: Player;
 
     /**
-     * ボタンの名前
+     * ボタン (プレイヤーから計算される値は計算後のもの)
      */
-    readonly button: MessageButton;
+    readonly button: PlayerResolved<MessageButton>;
 }
 
 /**
@@ -443,12 +924,17 @@ export interface ActionButton extends Element {
     /**
      * ボタンの名前
      */
-    name: string | RawMessage;
+    name: PlayerDependent<string | RawMessage>;
 
     /**
      * ボタンのアイコンのテクスチャパス
      */
-    iconPath?: string;
+    iconPath?: PlayerDependent<string>;
+
+    /**
+     * ボタンを表示するか
+     */
+    visible: PlayerDependent<boolean>;
 
     /**
      * ボタンを押したときに呼び出されるコールバック関数
@@ -470,12 +956,17 @@ export interface ActionButtonInput {
     /**
      * ボタンの名前
      */
-    name: string | RawMessage;
+    name: PlayerDependent<string | RawMessage>;
 
     /**
      * ボタンのアイコンのテクスチャパス
      */
-    iconPath?: string;
+    iconPath?: PlayerDependent<string>;
+
+    /**
+     * ボタンを表示するか (デフォルトは常に表示)
+     */
+    visible?: PlayerDependent<boolean>;
 
     /**
      * ボタンを押したときに呼び出されるコールバック関数
@@ -495,7 +986,7 @@ export interface MessageButton extends Element {
     /**
      * ボタンの名前
      */
-    name: string | RawMessage;
+    name: PlayerDependent<string | RawMessage>;
 
     /**
      * ボタンを押したときに呼び出されるコールバック関数
@@ -510,7 +1001,7 @@ export interface MessageButtonInput {
     /**
      * ボタンの名前
      */
-    name: string | RawMessage;
+    name: PlayerDependent<string | RawMessage>;
 
     /**
      * ボタンを押したときに呼び出されるコールバック関数
@@ -530,7 +1021,12 @@ export interface ModalFormElement extends Element {
     /**
      * ラベル
      */
-    label: string | RawMessage;
+    label: PlayerDependent<string | RawMessage>;
+
+    /**
+     * 要素を表示するか (表示されない要素の入力値はデフォルト値になる)
+     */
+    visible: PlayerDependent<boolean>;
 }
 
 /**
@@ -540,7 +1036,7 @@ export interface ModalFormToggle extends ModalFormElement {
     /**
      * デフォルト値
      */
-    defaultValue: boolean;
+    defaultValue: PlayerDependent<boolean>;
 }
 
 /**
@@ -560,7 +1056,7 @@ export interface ModalFormSlider extends ModalFormElement {
     /**
      * デフォルト値
      */
-    defaultValue: number;
+    defaultValue: PlayerDependent<number>;
 }
 
 /**
@@ -570,12 +1066,12 @@ export interface ModalFormTextField extends ModalFormElement {
     /**
      * テキストフィールドの入力欄が未入力状態のときに表示する文字列
      */
-    placeHolder: string | RawMessage;
+    placeHolder: PlayerDependent<string | RawMessage>;
 
     /**
      * デフォルト値
      */
-    defaultValue: string;
+    defaultValue: PlayerDependent<string>;
 }
 
 /**
@@ -603,43 +1099,48 @@ export interface ModalFormDropdown extends ModalFormElement {
     /**
      * ドロップダウンのリスト
      */
-    readonly list: DropdownOption[];
+    readonly list: PlayerDependent<DropdownOption[]>;
 
     /**
      * デフォルト値のインデックス
      */
-    defaultValueIndex: number;
+    defaultValueIndex: PlayerDependent<number>;
 }
 
 /**
  * ModalFormの要素入力用の型
  */
-export interface ModalFormElementInput {
+export interface ModalFormElementInput<K extends string = string> {
     /**
      * 要素のID
      */
-    id: string;
+    id: K;
 
     /**
      * ラベル
      */
-    label: string | RawMessage;
+    label: PlayerDependent<string | RawMessage>;
+
+    /**
+     * 要素を表示するか (デフォルトは常に表示、表示されない要素の入力値はデフォルト値になる)
+     */
+    visible?: PlayerDependent<boolean>;
 }
 
 /**
  * トグルの入力用の型
  */
-export interface ModalFormToggleInput extends ModalFormElementInput {
+export interface ModalFormToggleInput<K extends string = string> extends ModalFormElementInput<K> {
     /**
      * デフォルト値
      */
-    defaultValue?: boolean;
+    defaultValue?: PlayerDependent<boolean>;
 }
 
 /**
  * スライダーの入力用の型
  */
-export interface ModalFormSliderInput extends ModalFormElementInput {
+export interface ModalFormSliderInput<K extends string = string> extends ModalFormElementInput<K> {
     /**
      * スライダーの数値の範囲
      */
@@ -653,52 +1154,52 @@ export interface ModalFormSliderInput extends ModalFormElementInput {
     /**
      * デフォルト値
      */
-    defaultValue?: number;
+    defaultValue?: PlayerDependent<number>;
 }
 
 /**
  * テキストフィールドの入力用の型
  */
-export interface ModalFormTextFieldInput extends ModalFormElementInput {
+export interface ModalFormTextFieldInput<K extends string = string> extends ModalFormElementInput<K> {
     /**
      * テキストフィールドの入力欄が未入力状態のときに表示する文字列
      */
-    placeHolder: string | RawMessage;
+    placeHolder: PlayerDependent<string | RawMessage>;
 
     /**
      * デフォルト値
      */
-    defaultValue?: string;
+    defaultValue?: PlayerDependent<string>;
 }
 
 /**
  * ドロップダウンの入力用の型
  */
-export interface ModalFormDropdownInput extends ModalFormElementInput {
+export interface ModalFormDropdownInput<K extends string = string> extends ModalFormElementInput<K> {
     /**
      * ドロップダウンのリスト
      */
-    list: DropdownOption[];
+    list: PlayerDependent<DropdownOption[]>;
 
     /**
      * デフォルト値のインデックス
      */
-    defaultValueIndex?: number;
+    defaultValueIndex?: PlayerDependent<number>;
 }
 
-export interface SubmitButton {
+export interface SubmitButton<V extends ModalFormValues = ModalFormValues> {
     name: string | RawMessage;
 
-    on(event: ModalFormSubmitEvent): void;
+    on(event: ModalFormSubmitEvent<V>): void;
 }
 
 /**
  * 送信ボタンの入力用の型
  */
-export interface SubmitButtonInput {
+export interface SubmitButtonInput<V extends ModalFormValues = ModalFormValues> {
     name: string | RawMessage;
 
-    on?(event: ModalFormSubmitEvent): void;
+    on?(event: ModalFormSubmitEvent<V>): void;
 }
 
 export interface Definitions {}
@@ -739,7 +1240,7 @@ export interface ActionFormElementDefinitions extends DecorationDefinitions {
 /**
  * ModalFormの要素の定義情報
  */
-export interface ModalFormElementDefinitions extends DecorationDefinitions {
+export interface ModalFormElementDefinitions<V extends ModalFormValues = ModalFormValues> extends DecorationDefinitions {
     /**
      * 特定のIDのトグルを取得します。
      * @param id 要素のID
@@ -767,7 +1268,7 @@ export interface ModalFormElementDefinitions extends DecorationDefinitions {
     /**
      * 送信ボタンを取得します。
      */
-    getSubmitButton(): SubmitButton;
+    getSubmitButton(): SubmitButton<V>;
 
     /**
      * 条件に一致する要素を取得します。
@@ -798,8 +1299,8 @@ export interface DefinitionEnumerable<T extends Definitions> {
 /**
  * `ActionFormData`をより直感的かつ簡潔に扱うことを目的としたクラス
  */
-export class ActionFormWrapper extends ServerFormWrapper implements ActionPushable, Decoratable, DefinitionEnumerable<ActionFormElementDefinitions> {
-    private bodyText: string | RawMessage | undefined = undefined;
+export class ActionFormWrapper extends ServerFormWrapper<ActionFormResult> implements ActionPushable, Decoratable, DefinitionEnumerable<ActionFormElementDefinitions> {
+    private bodyTexts: PlayerDependent<string | RawMessage>[] | undefined = undefined;
 
     private readonly values: (ActionButton | Label | Header | Divider)[] = [];
 
@@ -844,20 +1345,8 @@ export class ActionFormWrapper extends ServerFormWrapper implements ActionPushab
      * フォームの本文を変更します。
      * @param texts 本文
      */
-    public body(...texts: (string | RawMessage)[]): this {
-        this.bodyText = {
-            rawtext: texts.map((_, i) => {
-                const rawMessage = (typeof _ === "string") ? { text: _ } : _;
-
-                if (i < texts.length - 1) return {
-                    rawtext: [
-                        rawMessage,
-                        { text: "\n" }
-                    ]
-                };
-                else return rawMessage;
-            })
-        };
+    public body(...texts: PlayerDependent<string | RawMessage>[]): this {
+        this.bodyTexts = texts;
         return this;
     }
 
@@ -867,13 +1356,7 @@ export class ActionFormWrapper extends ServerFormWrapper implements ActionPushab
      * @overload
      */
     public button(button: ActionButtonInput): this {
-        this.values.push({
-            name: button.name,
-            iconPath: button.iconPath,
-            tags: button.tags ?? [],
-            callbacks: new Set(button.on ? [button.on] : undefined),
-            type: "ACTION_BUTTON"
-        } as ActionButton);
+        this.values.push(ActionFormWrapper.actionButtonOf(button));
         return this;
     }
 
@@ -881,6 +1364,7 @@ export class ActionFormWrapper extends ServerFormWrapper implements ActionPushab
         this.values.push({
             id: label.id,
             text: label.text,
+            visible: label.visible ?? true,
             type: "LABEL"
         });
         return this;
@@ -890,6 +1374,7 @@ export class ActionFormWrapper extends ServerFormWrapper implements ActionPushab
         this.values.push({
             id: header.id,
             text: header.text,
+            visible: header.visible ?? true,
             type: "HEADER"
         });
         return this;
@@ -898,6 +1383,7 @@ export class ActionFormWrapper extends ServerFormWrapper implements ActionPushab
     public divider(divider: DividerInput): this {
         this.values.push({
             id: divider.id,
+            visible: divider.visible ?? true,
             type: "DIVIDER"
         });
         return this;
@@ -920,15 +1406,28 @@ export class ActionFormWrapper extends ServerFormWrapper implements ActionPushab
      */
     public readonly elements: ActionFormElementDefinitions;
 
-    public override open(player: Player): void {
+    protected override request(player: Player): Promise<ActionFormResult> {
+        return this.requestWith(player, []);
+    }
+
+    /**
+     * 末尾にボタンを加えてフォームを表示します。
+     * @param player プレイヤー
+     * @param extraButtons この表示に限って加えるボタン
+     */
+    private requestWith(player: Player, extraButtons: readonly ActionButton[]): Promise<ActionFormResult> {
         const form = new ActionFormData()
-            .title(this.titleText);
+            .title(resolveFor(this.titleText, player));
 
-        if (this.bodyText !== undefined) {
-            form.body(this.bodyText);
+        if (this.bodyTexts !== undefined) {
+            form.body(rawMessageOf(this.bodyTexts.map(text => resolveFor(text, player))));
         }
 
-        for (const value of this.values) {
+        const values = [...this.values, ...extraButtons]
+            .map(value => resolveElementFor(value, player))
+            .filter(value => value.visible);
+
+        for (const value of values) {
             if (ServerFormElementPredicates.isActionButton(value)) {
                 form.button(value.name, value.iconPath);
             }
@@ -947,39 +1446,12 @@ export class ActionFormWrapper extends ServerFormWrapper implements ActionPushab
         }
 
         // @ts-ignore "@minecraft/server"のPlayerと"@minecraft/server-ui"のPlayerが一致しないんだよねなんか
-        const promise = form.show(player).then(response => {
+        return form.show(player).then((response): ActionFormResult => {
             if (response.selection === undefined) {
-                const that = this;
-
-                const cancelEvent: ServerFormCancelEvent = {
-                    player,
-                    reason: response.cancelationReason as FormCancelationReason,
-                    reopen() {
-                        system.run(() => {
-                            that.open(player);
-                        });
-                    }
-                };
-
-                this.cancelationCallbacks.get("Any")!.forEach(callbackFn => {
-                    callbackFn(cancelEvent);
-                });
-
-                if (response.cancelationReason === "UserBusy") {
-                    this.cancelationCallbacks.get("UserBusy")!.forEach(callbackFn => {
-                        callbackFn(cancelEvent);
-                    });
-                }
-                else if (response.cancelationReason === "UserClosed") {
-                    this.cancelationCallbacks.get("UserClosed")!.forEach(callbackFn => {
-                        callbackFn(cancelEvent);
-                    });
-                }
-
-                return;
+                return { kind: "canceled", reason: response.cancelationReason as FormCancelationReason };
             }
 
-            const button: ActionButton = this.values.filter(ServerFormElementPredicates.isActionButton)[response.selection]!;
+            const button = values.filter((value): value is PlayerResolved<ActionButton> => ServerFormElementPredicates.isActionButton(value))[response.selection]!;
 
             if (button.callbacks.size > 0) {
                 button.callbacks.forEach(callbackFn => {
@@ -990,40 +1462,203 @@ export class ActionFormWrapper extends ServerFormWrapper implements ActionPushab
             this.pushEventCallbacks.forEach(callbackFn => {
                 callbackFn({ button, player })
             });
+
+            return { kind: "pushed", button };
         });
-        
-        if (this.errorCatcherCallbacks.size > 0) {
-            promise.catch(error => {
-                this.errorCatcherCallbacks.forEach(catcher => {
-                    catcher({
-                        player,
-                        error: new ServerFormError(error)
-                    });
-                });
+    }
+
+    /**
+     * このインスタンスに手を加えずに、一度の表示に限ってボタンを加えてフォームを開きます。
+     * @param player プレイヤー
+     * @param buttons 末尾に加えるボタン
+     * @param cancelation 呼び出し元の閉じた際の処理
+     */
+    public [SYMBOL_FOR_OPEN_WITH_BUTTONS](player: Player, buttons: readonly ActionButtonInput[], cancelation: ServerFormCancelation): void {
+        const extraButtons = buttons.map(button => ActionFormWrapper.actionButtonOf(button));
+        this[SYMBOL_FOR_OPEN](player, cancelation, player => this.requestWith(player, extraButtons));
+    }
+
+    private static actionButtonOf(button: ActionButtonInput): ActionButton {
+        return {
+            name: button.name,
+            iconPath: button.iconPath,
+            visible: button.visible ?? true,
+            tags: button.tags ?? [],
+            callbacks: new Set(button.on ? [button.on] : undefined),
+            type: "ACTION_BUTTON"
+        } as ActionButton;
+    }
+}
+
+/**
+ * `ModalFormWrapper.fromModel()`においてモデルのプロパティ1つから生成される要素
+ */
+interface ModalFormModelField {
+    /**
+     * フォームに要素を追加します。
+     */
+    add(form: ModalFormWrapper<ModalFormValues>, id: string, label: string | RawMessage): void;
+
+    /**
+     * フォームの入力値をモデルで検査する値に変換します。
+     */
+    resolve(input: ModalFormValues[string] | undefined): unknown;
+}
+
+/**
+ * 選択肢の値の配列からドロップダウンを生成します。
+ * @param options 値とその表示名の組
+ * @param defaultValue デフォルト値
+ */
+function dropdownFieldOf(options: readonly (readonly [unknown, string])[], defaultValue: unknown): ModalFormModelField {
+    const defaultValueIndex = options.findIndex(([value]) => value === defaultValue);
+
+    return {
+        add(form, id, label) {
+            form.dropdown({
+                id,
+                label,
+                list: options.map(([, text], index) => ({ id: String(index), text })),
+                defaultValueIndex: defaultValueIndex === -1 ? 0 : defaultValueIndex
             });
+        },
+        resolve(input) {
+            return (typeof input === "object") ? options[input.index]?.[0] : input;
+        }
+    };
+}
+
+/**
+ * モデルの構造からフォームの要素を決定します。
+ * @param model プロパティのモデル
+ * @param defaultValue `default()`で指定されたデフォルト値
+ * @param optional `undefined`を受け入れるか
+ * @throws 要素に変換できない型のとき
+ */
+function modalFormFieldOf(model: TypeModel<unknown>, defaultValue: unknown = undefined, optional: boolean = false): ModalFormModelField {
+    const structure = model.getStructure();
+
+    switch (structure.kind) {
+        case "default":
+            return modalFormFieldOf(structure.source, structure.value, optional);
+        case "optional":
+        case "undefindable":
+            return modalFormFieldOf(structure.inner, defaultValue, true);
+        case "transform":
+        case "refine":
+        case "pipe":
+            return modalFormFieldOf(structure.source, defaultValue, optional);
+        case "coerce":
+            return modalFormFieldOf(structure.target, defaultValue, optional);
+        case "boolean":
+            return {
+                add(form, id, label) {
+                    form.toggle({ id, label, ...(typeof defaultValue === "boolean" ? { defaultValue } : {}) });
+                },
+                resolve: input => input
+            };
+        case "number": {
+            if (structure.int && Number.isFinite(structure.min) && Number.isFinite(structure.max)) {
+                const range: NumberRange = { min: structure.min, max: structure.max };
+
+                return {
+                    add(form, id, label) {
+                        form.slider({
+                            id,
+                            label,
+                            range,
+                            step: structure.multipleOf ?? 1,
+                            ...(typeof defaultValue === "number" ? { defaultValue } : { defaultValue: range.min })
+                        });
+                    },
+                    resolve: input => input
+                };
+            }
+
+            // 範囲のない数値はテキストフィールドで入力させ、数値として解釈できなければ文字列のまま検査させる
+            return {
+                add(form, id, label) {
+                    form.textField({ id, label, placeHolder: "", ...(typeof defaultValue === "number" ? { defaultValue: String(defaultValue) } : {}) });
+                },
+                resolve(input) {
+                    if (typeof input !== "string") return input;
+                    else if (optional && input === "") return undefined;
+
+                    const number = Number(input);
+                    return (input.trim() === "" || Number.isNaN(number)) ? input : number;
+                }
+            };
+        }
+        case "string":
+            return {
+                add(form, id, label) {
+                    form.textField({ id, label, placeHolder: "", ...(typeof defaultValue === "string" ? { defaultValue } : {}) });
+                },
+                resolve: input => (optional && input === "") ? undefined : input
+            };
+        case "enum":
+            // 数値列挙型の逆引き (`E[0] === "A"`) は選択肢に含めない
+            return dropdownFieldOf(
+                Object.entries(structure.enumeration)
+                    .filter(([key]) => key.trim().length === 0 || Number.isNaN(Number(key)))
+                    .map(([key, value]) => [value, key] as const),
+                defaultValue
+            );
+        case "literal":
+            return dropdownFieldOf([[structure.value, String(structure.value)]], defaultValue);
+        case "union": {
+            const literals = structure.members.map(member => member.getStructure());
+
+            if (literals.every(literal => literal.kind === "literal")) {
+                return dropdownFieldOf(literals.map(literal => [literal.value, String(literal.value)] as const), defaultValue);
+            }
+
+            break;
         }
     }
+
+    throw new ServerFormError(new Error("フォームの要素に変換できない型です: " + model.toString()));
+}
+
+/**
+ * 検査の失敗のパスから、それが属する要素のIDを返します。
+ * @param path JSON Pointer形式のパス
+ */
+function elementIdOfPath(path: string): string {
+    const segment = path.split("/")[1];
+    return (segment === undefined) ? "" : segment.replace(/~1/g, "/").replace(/~0/g, "~");
 }
 
 /**
- * `ModalFormData`をより直感的かつ簡潔に扱うことを目的としたクラス
+ * エラーメッセージを表示するラベルの文字列を返します。
+ * @param messages エラーメッセージ
  */
-export class ModalFormWrapper extends ServerFormWrapper implements Submittable, Decoratable, DefinitionEnumerable<ModalFormElementDefinitions> {
+function errorTextOf(messages: readonly string[]): string {
+    return messages.map(message => "§c" + message).join("\n");
+}
+
+/**
+ * `ModalFormData`をより直感的かつ簡潔に扱うことを目的としたクラス<br>
+ * 型引数`V`は追加された要素のIDと入力値の型を追跡します。
+ */
+export class ModalFormWrapper<V extends ModalFormValues = {}> extends ServerFormWrapper<ModalFormResult<V>> implements Submittable<V>, Decoratable, DefinitionEnumerable<ModalFormElementDefinitions<V>> {
     private readonly values: (ModalFormToggle | ModalFormSlider | ModalFormDropdown | ModalFormTextField | Label | Header | Divider)[] = [];
 
-    private submitButtonInfo: SubmitButton = {
+    private submitButtonInfo: SubmitButton<V> = {
         name: { translate: "gui.submit" },
         on() {}
     };
 
+    private resolver: ((values: ModalFormValues) => ValidationResult<V>) | undefined = undefined;
+
     /**
      * `ModalFormWrapper`のインスタンスを生成します。
      */
     public constructor() {
         super();
-        this.elements = undefined as unknown as ModalFormElementDefinitions;
+        this.elements = undefined as unknown as ModalFormElementDefinitions<V>;
         Object.defineProperty(this, "elements", {
-            get: (): ModalFormElementDefinitions => {
+            get: (): ModalFormElementDefinitions<V> => {
                 const that = this;
         
                 function getElement(id: string): ModalFormElement | undefined {    
@@ -1088,19 +1723,81 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
         })
     }
 
+    /**
+     * 構造体のモデルからフォームを生成します。<br>
+     * 真偽値はトグル、範囲付きの整数はスライダー、列挙型とリテラルのユニオンはドロップダウン、それ以外の数値と文字列はテキストフィールドになります。<br>
+     * 送信された値は`model`で検査され、失敗した場合はエラーメッセージを添えてフォームを開き直します。
+     * @param model `sentry.structOf()`などで作成されたモデル
+     * @param labels プロパティ名をキーとする各要素のラベル (省略したプロパティはプロパティ名がラベルになる)
+     * @returns `model`で検査された値を`values`に持つインスタンス
+     * @throws 要素に変換できない型のプロパティがあるとき
+     */
+    public static fromModel<T, O extends ModalFormValues>(model: TypeModel<T, O>, labels: Readonly<Partial<Record<keyof O & string, string | RawMessage>>>): ModalFormWrapper<O> {
+        return ModalFormWrapper[SYMBOL_FOR_FROM_MODEL](model, labels, value => value);
+    }
+
+    /**
+     * `fromModel()`と同様にフォームを生成し、検査に通った値を`valuesOf`で`values`に変換します。<br>
+     * `ServerFormPresets.prompt()`が`ModalFormValues`に収まらない値を受け取るために使います。
+     * @param model 構造体のモデル
+     * @param labels プロパティ名をキーとする各要素のラベル
+     * @param valuesOf 検査に通った値から`values`を返す関数
+     */
+    public static [SYMBOL_FOR_FROM_MODEL]<O, V extends ModalFormValues>(model: TypeModel<unknown, O>, labels: Readonly<Partial<Record<string, string | RawMessage>>>, valuesOf: (value: O) => V): ModalFormWrapper<V> {
+        const structure = model.getStructure();
+
+        if (structure.kind !== "struct" && structure.kind !== "object") {
+            throw new ServerFormError(new Error("構造体でないモデルからフォームを生成することはできません: " + model.toString()));
+        }
+
+        const form = new ModalFormWrapper<ModalFormValues>();
+        const fields = new Map<string, ModalFormModelField>();
+
+        for (const key of Object.keys(structure.properties)) {
+            const field = modalFormFieldOf(structure.properties[key]!);
+            field.add(form, key, labels[key] ?? key);
+            fields.set(key, field);
+        }
+
+        form.resolver = values => {
+            const object: Record<string, unknown> = {};
+
+            for (const [key, field] of fields) {
+                const value = field.resolve(values[key]);
+                if (value !== undefined) {
+                    object[key] = value;
+                }
+            }
+
+            const result = model.validate(object);
+            return result.success ? { success: true, value: valuesOf(result.value) } : result;
+        };
+
+        return form.retyped<V>();
+    }
+
+    /**
+     * このインスタンスを、`values`の型を`W`としたものとして返します。
+     * <br>`values`の型は型引数にのみ現れ実行時の状態には影響しないため、要素を追加したときなどにここで付け替えます。
+     */
+    private retyped<W extends ModalFormValues>(): ModalFormWrapper<W> {
+        return this as unknown as ModalFormWrapper<W>;
+    }
+
     /**
      * フォームにトグルを追加します。
      * @param toggle トグル
      * @overload
      */
-    public toggle(toggle: ModalFormToggleInput): this {
+    public toggle<K extends string>(toggle: ModalFormToggleInput<K>): ModalFormWrapper<ModalFormValuesWith<V, K, boolean>> {
         this.values.push({
             id: toggle.id,
             label: toggle.label,
             defaultValue: toggle.defaultValue ?? false,
+            visible: toggle.visible ?? true,
             type: "MODAL_FORM_ELEMENT"
         });
-        return this;
+        return this.retyped<ModalFormValuesWith<V, K, boolean>>();
     }
 
     /**
@@ -1108,16 +1805,17 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
      * @param slider スライダー
      * @overload
      */
-    public slider(slider: ModalFormSliderInput): this {
+    public slider<K extends string>(slider: ModalFormSliderInput<K>): ModalFormWrapper<ModalFormValuesWith<V, K, number>> {
         this.values.push({
             id: slider.id,
             label: slider.label,
             step: slider.step ?? 1,
             range: slider.range,
             defaultValue: slider.defaultValue ?? 0,
+            visible: slider.visible ?? true,
             type: "MODAL_FORM_ELEMENT"
         });
-        return this;
+        return this.retyped<ModalFormValuesWith<V, K, number>>();
     }
 
     /**
@@ -1125,15 +1823,16 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
      * @param dropdown ドロップダウン
      * @overload
      */
-    public dropdown(dropdown: ModalFormDropdownInput): this {
+    public dropdown<K extends string>(dropdown: ModalFormDropdownInput<K>): ModalFormWrapper<ModalFormValuesWith<V, K, SelectedDropdownValue>> {
         this.values.push({
             id: dropdown.id,
             label: dropdown.label,
             list: dropdown.list,
             defaultValueIndex: dropdown.defaultValueIndex ?? 0,
+            visible: dropdown.visible ?? true,
             type: "MODAL_FORM_ELEMENT"
         });
-        return this;
+        return this.retyped<ModalFormValuesWith<V, K, SelectedDropdownValue>>();
     }
 
     /**
@@ -1141,22 +1840,23 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
      * @param textField テキストフィールド
      * @overload
      */
-    public textField(textField: ModalFormTextFieldInput): this {
+    public textField<K extends string>(textField: ModalFormTextFieldInput<K>): ModalFormWrapper<ModalFormValuesWith<V, K, string>> {
         this.values.push({
             id: textField.id,
             label: textField.label,
             placeHolder: textField.placeHolder,
             defaultValue: textField.defaultValue ?? "",
+            visible: textField.visible ?? true,
             type: "MODAL_FORM_ELEMENT"
         });
-        return this;
+        return this.retyped<ModalFormValuesWith<V, K, string>>();
     }
 
     /**
      * 送信ボタンの設定を行います。
      * @param button 送信ボタン
      */
-    public submitButton(button: SubmitButtonInput): this {
+    public submitButton(button: SubmitButtonInput<V>): this {
         this.submitButtonInfo = {
             name: button.name,
             on: button.on ?? (() => {})
@@ -1168,6 +1868,7 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
         this.values.push({
             id: label.id,
             text: label.text,
+            visible: label.visible ?? true,
             type: "LABEL"
         });
         return this;
@@ -1177,6 +1878,7 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
         this.values.push({
             id:  header.id,
             text: header.text,
+            visible: header.visible ?? true,
             type: "HEADER"
         });
         return this;
@@ -1185,6 +1887,7 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
     public divider(divider: DividerInput): this {
         this.values.push({
             id: divider.id,
+            visible: divider.visible ?? true,
             type: "DIVIDER"
         });
         return this;
@@ -1193,25 +1896,60 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
     /**
      * フォームの要素の定義情報
      */
-    public readonly elements: ModalFormElementDefinitions;
+    public readonly elements: ModalFormElementDefinitions<V>;
+
+    protected override request(player: Player): Promise<ModalFormResult<V>> {
+        return this.display(player, new Map(), {}, display => display());
+    }
+
+    /**
+     * 再試行では最初からやり直さず、検査に失敗して開き直したフォームをエラーメッセージと入力値を保ったまま開き直します。
+     */
+    protected override createRequest(): (player: Player) => Promise<ModalFormResult<V>> {
+        let current: (() => Promise<ModalFormResult<V>>) | undefined;
+
+        const step: ModalFormStep<V> = display => {
+            current = display;
+            return display();
+        };
 
-    public open(player: Player): void {        
+        return player => (current === undefined) ? this.display(player, new Map(), {}, step) : current();
+    }
+
+    /**
+     * フォームを表示します。
+     * @param player プレイヤー
+     * @param errors 要素のIDをキーとする、要素の直後に表示するエラーメッセージ (ルートは空文字列)
+     * @param inputs デフォルト値の代わりに表示する前回の入力値
+     * @param step 検査に失敗したフォームを開き直す関数
+     */
+    private display(player: Player, errors: ReadonlyMap<string, readonly string[]>, inputs: ModalFormValues, step: ModalFormStep<V>): Promise<ModalFormResult<V>> {
         const form = new ModalFormData()
-            .title(this.titleText)
+            .title(resolveFor(this.titleText, player))
             .submitButton(this.submitButtonInfo.name);
-        
-        for (const value of this.values) {
+
+        if (errors.has("")) {
+            form.label(errorTextOf(errors.get("")!));
+        }
+
+        const resolvedElements = this.values.map(value => resolveElementFor(value, player));
+
+        for (const value of resolvedElements) {
+            if (!value.visible) continue;
+
+            const input = ServerFormElementPredicates.isModalFormElement(value) ? inputs[value.id] : undefined;
+
             if (ServerFormElementPredicates.isToggle(value)) {
-                form.toggle(value.label, { defaultValue: value.defaultValue });
+                form.toggle(value.label, { defaultValue: typeof input === "boolean" ? input : value.defaultValue });
             }
             else if (ServerFormElementPredicates.isSlider(value)) {
-                form.slider(value.label, value.range.min, value.range.max, { valueStep: value.step, defaultValue: value.defaultValue });
+                form.slider(value.label, value.range.min, value.range.max, { valueStep: value.step, defaultValue: typeof input === "number" ? input : value.defaultValue });
             }
             else if (ServerFormElementPredicates.isDropdown(value)) {
-                form.dropdown(value.label, value.list.map(({ text }) => text), { defaultValueIndex: value.defaultValueIndex });
+                form.dropdown(value.label, value.list.map(({ text }) => text), { defaultValueIndex: typeof input === "object" ? input.index : value.defaultValueIndex });
             }
             else if (ServerFormElementPredicates.isTextField(value)) {
-                form.textField(value.label, value.placeHolder, { defaultValue: value.defaultValue });
+                form.textField(value.label, value.placeHolder, { defaultValue: typeof input === "string" ? input : value.defaultValue });
             }
             else if (ServerFormElementPredicates.isLabel(value)) {
                 form.label(value.text);
@@ -1225,77 +1963,98 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
             else {
                throw new ServerFormError(new Error("無効なModalForm要素です"));
             }
+
+            if (ServerFormElementPredicates.isModalFormElement(value) && errors.has(value.id)) {
+                form.label(errorTextOf(errors.get(value.id)!));
+            }
         }
 
         // @ts-ignore "@minecraft/server"のPlayerと"@minecraft/server-ui"のPlayerが一致しないんだよねなんか
-        const promise = form.show(player).then(response => {
+        return form.show(player).then((response): ModalFormResult<V> | Promise<ModalFormResult<V>> => {
             if (response.formValues === undefined) {
-                const that = this;
-                const cancelEvent: ServerFormCancelEvent = {
-                    player,
-                    reason: response.cancelationReason as FormCancelationReason,
-                    reopen() {
-                        system.run(() => {
-                            that.open(player);
-                        });
-                    }
-                };
+                return { kind: "canceled", reason: response.cancelationReason as FormCancelationReason };
+            }
 
-                this.cancelationCallbacks.get("Any")!.forEach(callbackFn => {
-                    callbackFn(cancelEvent);
-                });
+            const modalFormElements = resolvedElements.filter((value): value is PlayerResolved<ModalFormToggle | ModalFormSlider | ModalFormDropdown | ModalFormTextField> => {
+                return ServerFormElementPredicates.isModalFormElement(value);
+            });
+            const elements = modalFormElements.filter(element => element.visible);
 
-                if (response.cancelationReason === "UserBusy") {
-                    this.cancelationCallbacks.get("UserBusy")!.forEach(callbackFn => {
-                        callbackFn(cancelEvent);
-                    });
+            const inputValues = response.formValues!.filter(x => x !== undefined);
+
+            const values: ModalFormValues = {};
+            for (const element of modalFormElements) {
+                const index = elements.indexOf(element);
+                let formValue: string | number | boolean | undefined;
+
+                if (index !== -1) {
+                    formValue = inputValues[index];
                 }
-                else if (response.cancelationReason === "UserClosed") {
-                    this.cancelationCallbacks.get("UserClosed")!.forEach(callbackFn => {
-                        callbackFn(cancelEvent);
-                    });
+                else if (ServerFormElementPredicates.isDropdown(element)) {
+                    formValue = element.defaultValueIndex;
+                }
+                else {
+                    formValue = (element as PlayerResolved<ModalFormToggle | ModalFormSlider | ModalFormTextField>).defaultValue;
                 }
 
-                return;
+                if (formValue === undefined) continue;
+                values[element.id] = ServerFormElementPredicates.isDropdown(element)
+                    ? ({ index: formValue as number, value: element.list[formValue as number] } as SelectedDropdownValue)
+                    : formValue;
             }
 
-            const that = this;
-            const elements = that.values.filter(ServerFormElementPredicates.isModalFormElement) as ModalFormElement[];
+            /**
+             * 非表示の要素も含め、`values`から要素の値を取り出します。
+             */
+            function getMatchingInput(id: string, predicate: (element: ModalFormElement) => boolean): ModalFormValues[string] {
+                const element = modalFormElements.find(value => value.id === id);
+                const value = values[id];
 
-            function getMatchingElementIndex(id: string, predicate: (element: ModalFormElement) => boolean): number {
-                const index = elements.findIndex(value => value.id === id);
-                if (index === -1) {
+                if (element === undefined || value === undefined) {
                     throw new ServerFormError(new Error("指定されたIDの要素が見つかりませんでした"));
                 }
-                else if (predicate(elements[index]!)) return index;
+                else if (predicate(element)) return value;
                 else {
-                    throw new ServerFormError(new Error("指定されたIDの要素の型が正しくありません: " + JSON.stringify(elements) + ", " + predicate.toString() + ", " + id + ", " + index));
+                    throw new ServerFormError(new Error("指定されたIDの要素の型が正しくありません: " + id));
                 }
             }
 
-            const inputValues = response.formValues!.filter(x => x !== undefined);
+            let resolvedValues = values as V;
+
+            if (this.resolver !== undefined) {
+                const result = this.resolver(values);
+
+                if (!result.success) {
+                    const nextErrors = new Map<string, string[]>();
+                    for (const issue of result.issues) {
+                        const id = elementIdOfPath(issue.path);
+                        nextErrors.set(id, [...(nextErrors.get(id) ?? []), issue.message]);
+                    }
+
+                    return new Promise(resolve => {
+                        system.run(() => {
+                            resolve(step(() => this.display(player, nextErrors, values, step)));
+                        });
+                    });
+                }
+
+                resolvedValues = result.value;
+            }
 
-            const submitEvent: ModalFormSubmitEvent = {
+            const submitEvent: ModalFormSubmitEvent<V> = {
                 player,
+                values: resolvedValues,
                 getToggleInput(id) {
-                    const index = getMatchingElementIndex(id, ServerFormElementPredicates.isToggle);
-                    return inputValues[index] as boolean;
+                    return getMatchingInput(id, ServerFormElementPredicates.isToggle) as boolean;
                 },
                 getSliderInput(id) {
-                    const index = getMatchingElementIndex(id, ServerFormElementPredicates.isSlider);
-                    return inputValues[index] as number;
+                    return getMatchingInput(id, ServerFormElementPredicates.isSlider) as number;
                 },
                 getDropdownInput(id) {
-                    const index = getMatchingElementIndex(id, ServerFormElementPredicates.isDropdown);
-                    const optionIndex = inputValues[index] as number;
-                    return {
-                        index: optionIndex,
-                        value: (elements[index] as ModalFormDropdown).list[optionIndex]
-                    } as SelectedDropdownValue;
+                    return getMatchingInput(id, ServerFormElementPredicates.isDropdown) as SelectedDropdownValue;
                 },
                 getTextFieldInput(id) {
-                    const index = getMatchingElementIndex(id, ServerFormElementPredicates.isTextField);
-                    return inputValues[index] as string;
+                    return getMatchingInput(id, ServerFormElementPredicates.isTextField) as string;
                 },
                 getAllInputs() {
                     return inputValues
@@ -1310,26 +2069,23 @@ export class ModalFormWrapper extends ServerFormWrapper implements Submittable,
             };
 
             this.submitButtonInfo.on(submitEvent);
-        });
 
-        if (this.errorCatcherCallbacks.size > 0) {
-            promise.catch(error => {
-                this.errorCatcherCallbacks.forEach(catcher => {
-                    catcher({
-                        player,
-                        error: new ServerFormError(error)
-                    });
-                });
-            });
-        }
+            return { kind: "submitted", values: resolvedValues };
+        });
     }
 }
 
+/**
+ * `ModalFormWrapper`のフォームを表示する関数
+ * <br>再試行の際にエラーメッセージと入力値を添えたフォームを開き直すために、検査に失敗した後の表示はこれを通して行います。
+ */
+type ModalFormStep<V extends ModalFormValues> = (display: () => Promise<ModalFormResult<V>>) => Promise<ModalFormResult<V>>;
+
 /**
  * `MessageFormData`をより直感的かつ簡潔に扱うことを目的としたクラス
  */
-export class MessageFormWrapper extends ServerFormWrapper implements MessagePushable, DefinitionEnumerable<MessageFormElementDefinitions> {
-    private bodyText: string | RawMessage | undefined = undefined;
+export class MessageFormWrapper extends ServerFormWrapper<MessageFormResult> implements MessagePushable, DefinitionEnumerable<MessageFormElementDefinitions> {
+    private bodyTexts: PlayerDependent<string | RawMessage>[] | undefined = undefined;
 
     private readonly buttonPair: [MessageButton, MessageButton] = [
         { name: "1", callbacks: new Set(), type: "MESSAGE_BUTTON" },
@@ -1360,20 +2116,8 @@ export class MessageFormWrapper extends ServerFormWrapper implements MessagePush
      * フォームの本文を変更します。
      * @param texts 本文
      */
-    public body(...texts: (string | RawMessage)[]): this {
-        this.bodyText = {
-            rawtext: texts.map((_, i) => {
-                const rawMessage = (typeof _ === "string") ? { text: _ } : _;
-
-                if (i < texts.length - 1) return {
-                    rawtext: [
-                        rawMessage,
-                        { text: "\n" }
-                    ]
-                };
-                else return rawMessage;
-            })
-        };
+    public body(...texts: PlayerDependent<string | RawMessage>[]): this {
+        this.bodyTexts = texts;
         return this;
     }
 
@@ -1417,77 +2161,1241 @@ export class MessageFormWrapper extends ServerFormWrapper implements MessagePush
      */
     public readonly elements: MessageFormElementDefinitions;
 
-    public open(player: Player): void {    
-        if (this.bodyText === undefined) {
+    protected override validate(): void {
+        if (this.bodyTexts === undefined) {
             throw new ServerFormError(new Error("bodyが設定されていません"));
         }
+    }
+
+    protected override request(player: Player): Promise<MessageFormResult> {
+        const buttonPair: [PlayerResolved<MessageButton>, PlayerResolved<MessageButton>] = [
+            resolveElementFor(this.buttonPair[0], player),
+            resolveElementFor(this.buttonPair[1], player)
+        ];
 
         const form = new MessageFormData()
-            .title(this.titleText)
-            .body(this.bodyText)
-            .button1(this.buttonPair[0].name)
-            .button2(this.buttonPair[1].name);
+            .title(resolveFor(this.titleText, player))
+            // bodyの有無は validate() で検査済み
+            .body(rawMessageOf(this.bodyTexts!.map(text => resolveFor(text, player))))
+            .button1(buttonPair[0].name)
+            .button2(buttonPair[1].name);
 
-        const promise = form.show(player).then(response => {
+        return form.show(player).then((response): MessageFormResult => {
             if (response.selection === undefined) {
-                const that = this;
-                const cancelEvent: ServerFormCancelEvent = {
-                    player,
-                    reason: response.cancelationReason as FormCancelationReason,
-                    reopen() {
-                        system.run(() => {
-                            that.open(player);
-                        });
-                    }
-                };
-
-                this.cancelationCallbacks.get("Any")!.forEach(callbackFn => {
-                    callbackFn(cancelEvent);
-                });
-
-                if (response.cancelationReason === FormCancelationReason.UserBusy) {
-                    this.cancelationCallbacks.get("UserBusy")!.forEach(callbackFn => {
-                        callbackFn(cancelEvent);
-                    });
-                }
-                else if (response.cancelationReason === FormCancelationReason.UserClosed) {
-                    this.cancelationCallbacks.get("UserClosed")!.forEach(callbackFn => {
-                        callbackFn(cancelEvent);
-                    });
-                }
-
-                return;
+                return { kind: "canceled", reason: response.cancelationReason as FormCancelationReason };
             }
 
             if (response.selection === 0) {
-                this.buttonPair[0].callbacks.forEach(callbackFn => {
+                buttonPair[0].callbacks.forEach(callbackFn => {
                     callbackFn(player);
                 });
 
                 this.pushEventCallbacks.forEach(callbackFn => {
-                    callbackFn({ button: { ...this.buttonPair[0] }, player });
+                    callbackFn({ button: buttonPair[0], player });
                 });
             }
             else {
-                this.buttonPair[1].callbacks.forEach(callbackFn => {
+                buttonPair[1].callbacks.forEach(callbackFn => {
                     callbackFn(player);
                 });
 
                 this.pushEventCallbacks.forEach(callbackFn => {
-                    callbackFn({ button: { ...this.buttonPair[1] }, player });
+                    callbackFn({ button: buttonPair[1], player });
                 });
             }
+
+            return { kind: "pushed", button: buttonPair[response.selection === 0 ? 0 : 1] };
         });
-        
-        if (this.errorCatcherCallbacks.size > 0) {
-            promise.catch(error => {
-                this.errorCatcherCallbacks.forEach(catcher => {
-                    catcher({
-                        player,
-                        error: new ServerFormError(error)
-                    });
-                });
-            });
+    }
+}
+
+/**
+ * `ActionFormListWrapper`の項目が選ばれたときに発火するイベントのコールバックに渡される引数
+ */
+export interface ActionFormListSelectEvent<T> {
+    /**
+     * プレイヤー
+     */
+    readonly player: Player;
+
+    /**
+     * 選ばれた項目
+     */
+    readonly item: T;
+}
+
+/**
+ * `ActionFormListWrapper`の項目のボタンの入力用の型
+ */
+export interface ActionFormListButtonInput {
+    /**
+     * ボタンの名前
+     */
+    name: string | RawMessage;
+
+    /**
+     * ボタンのアイコンのテクスチャパス
+     */
+    iconPath?: string;
+}
+
+/**
+ * `ActionFormListWrapper.search()`の設定
+ */
+export interface ActionFormListSearchOptions<T> {
+    /**
+     * テキストフィールドのラベル
+     */
+    readonly label?: string | RawMessage;
+
+    /**
+     * テキストフィールドの入力欄が未入力状態のときに表示する文字列
+     */
+    readonly placeHolder?: string | RawMessage;
+
+    /**
+     * 項目が検索文字列に一致するかを判定する関数<br>
+     * デフォルトはボタンの名前の大文字と小文字を区別しない部分一致で、`RawMessage`の名前は`text`のみを比較します (`translate`の名前を検索するには指定が必要です)
+     */
+    filter?(item: T, query: string): boolean;
+}
+
+/**
+ * `ActionFormListWrapper`の操作用のボタンの名前
+ */
+export interface ActionFormListNavigationButtonNames {
+    readonly previous?: string | RawMessage;
+
+    readonly next?: string | RawMessage;
+
+    readonly jump?: string | RawMessage;
+
+    readonly search?: string | RawMessage;
+}
+
+/**
+ * 多数の項目をページに分けて`ActionFormWrapper`で表示するクラス<br>
+ * 前後のページへのボタン、ページを選択するボタン、任意で検索のためのテキストフィールドが追加されます。
+ */
+export class ActionFormListWrapper<T> extends ServerFormWrapper<ActionFormListResult<T>> {
+    private readonly source: readonly T[] | ((player: Player) => readonly T[]);
+
+    private readonly renderer: (item: T) => ActionFormListButtonInput;
+
+    private itemsPerPage: number = 10;
+
+    private searchOptions: ActionFormListSearchOptions<T> | undefined = undefined;
+
+    private navigationButtonNames: Required<ActionFormListNavigationButtonNames> = {
+        previous: "<< 前のページ",
+        next: "次のページ >>",
+        jump: "ページを選択",
+        search: "検索"
+    };
+
+    private readonly selectEventCallbacks: Set<(event: ActionFormListSelectEvent<T>) => void> = new Set();
+
+    /**
+     * `ActionFormListWrapper`のインスタンスを生成します。
+     * @param source 項目の配列、またはプレイヤーから項目の配列を返す関数
+     * @param renderer 項目からボタンを生成する関数
+     */
+    public constructor(source: readonly T[] | ((player: Player) => readonly T[]), renderer: (item: T) => ActionFormListButtonInput) {
+        super();
+        this.source = source;
+        this.renderer = renderer;
+    }
+
+    /**
+     * 1ページあたりの項目の数を変更します。
+     * @param size 1以上の整数
+     * @returns `this`
+     * @throws `size`が1以上の整数でないとき
+     */
+    public pageSize(size: number): this {
+        if (!(Number.isSafeInteger(size) && size >= 1)) {
+            throw new ServerFormError(new Error("無効なページサイズです: " + size));
+        }
+
+        this.itemsPerPage = size;
+        return this;
+    }
+
+    /**
+     * 一覧の前に検索文字列を入力するフォームを表示するようにします。
+     * @param options 検索の設定
+     * @returns `this`
+     */
+    public search(options: ActionFormListSearchOptions<T> = {}): this {
+        this.searchOptions = options;
+        return this;
+    }
+
+    /**
+     * 操作用のボタンの名前を変更します。
+     * @param names ボタンの名前
+     * @returns `this`
+     */
+    public navigationButtons(names: ActionFormListNavigationButtonNames): this {
+        this.navigationButtonNames = { ...this.navigationButtonNames, ...names };
+        return this;
+    }
+
+    /**
+     * 項目が選ばれた際に発火するイベントのコールバックを登録します。
+     * @param callbackFn コールバック関数
+     * @returns `this`
+     */
+    public onSelect(callbackFn: (event: ActionFormListSelectEvent<T>) => void): this {
+        this.selectEventCallbacks.add(callbackFn);
+        return this;
+    }
+
+    protected override request(player: Player): Promise<ActionFormListResult<T>> {
+        return this.requestFirst(player, display => display());
+    }
+
+    /**
+     * 再試行ではページや検索のフォームを最初からやり直さず、`UserBusy`で閉じられたフォームを検索文字列などを保ったまま開き直します。
+     */
+    protected override createRequest(): (player: Player) => Promise<ActionFormListResult<T>> {
+        let current: (() => Promise<ActionFormListResult<T>>) | undefined;
+
+        const step: ActionFormListStep<T> = display => {
+            current = display;
+            return display();
+        };
+
+        return player => (current === undefined) ? this.requestFirst(player, step) : current();
+    }
+
+    /**
+     * 最初のフォームを表示します。
+     * @param player プレイヤー
+     * @param step フォームを表示する関数
+     */
+    private requestFirst(player: Player, step: ActionFormListStep<T>): Promise<ActionFormListResult<T>> {
+        const items = (typeof this.source === "function") ? this.source(player) : this.source;
+
+        if (this.searchOptions === undefined) {
+            return this.requestPage(player, step, items, items, 0, "");
+        }
+        else {
+            return this.requestSearch(player, step, items, "", this.searchOptions, undefined);
+        }
+    }
+
+    /**
+     * 検索文字列を入力するフォームを表示します。
+     * @param player プレイヤー
+     * @param step フォームを表示する関数
+     * @param items 全ての項目
+     * @param query 前回の検索文字列
+     * @param options 検索の設定
+     * @param back 閉じられたときに戻る先 (`undefined`であればそのまま閉じる)
+     */
+    private requestSearch(player: Player, step: ActionFormListStep<T>, items: readonly T[], query: string, options: ActionFormListSearchOptions<T>, back: (() => Promise<ActionFormListResult<T>>) | undefined): Promise<ActionFormListResult<T>> {
+        const form = new ModalFormWrapper()
+            .title(this.titleText)
+            .textField({
+                id: "query",
+                label: options.label ?? this.navigationButtonNames.search,
+                placeHolder: options.placeHolder ?? "",
+                defaultValue: query
+            });
+
+        return step(() => form.show(player).then(result => {
+            if (result.kind === "canceled") {
+                return (back === undefined || result.reason === "UserBusy") ? result : back();
+            }
+
+            const nextQuery = result.values.query;
+            const filter = options.filter ?? ((item: T, q: string) => {
+                return plainTextOf(this.renderer(item).name).toLowerCase().includes(q.toLowerCase());
+            });
+
+            const filteredItems = (nextQuery.length === 0) ? items : items.filter(item => filter(item, nextQuery));
+            return this.requestPage(player, step, items, filteredItems, 0, nextQuery);
+        }));
+    }
+
+    /**
+     * ページ番号を選択するフォームを表示します。
+     * @param player プレイヤー
+     * @param step フォームを表示する関数
+     * @param items 全ての項目
+     * @param filteredItems 検索で絞り込まれた項目
+     * @param page 現在のページ番号 (0始まり)
+     * @param query 検索文字列
+     */
+    private requestJump(player: Player, step: ActionFormListStep<T>, items: readonly T[], filteredItems: readonly T[], page: number, query: string): Promise<ActionFormListResult<T>> {
+        const form = new ModalFormWrapper()
+            .title(this.titleText)
+            .slider({
+                id: "page",
+                label: this.navigationButtonNames.jump,
+                range: { min: 1, max: this.pageCountOf(filteredItems) },
+                defaultValue: page + 1
+            });
+
+        return step(() => form.show(player).then(result => {
+            if (result.kind === "canceled") {
+                return (result.reason === "UserBusy") ? result : this.requestPage(player, step, items, filteredItems, page, query);
+            }
+
+            return this.requestPage(player, step, items, filteredItems, result.values.page - 1, query);
+        }));
+    }
+
+    /**
+     * 1ページ分の項目を表示します。
+     * @param player プレイヤー
+     * @param step フォームを表示する関数
+     * @param items 全ての項目
+     * @param filteredItems 検索で絞り込まれた項目
+     * @param page ページ番号 (0始まり)
+     * @param query 検索文字列
+     */
+    private requestPage(player: Player, step: ActionFormListStep<T>, items: readonly T[], filteredItems: readonly T[], page: number, query: string): Promise<ActionFormListResult<T>> {
+        const pageCount = this.pageCountOf(filteredItems);
+        const searchName = this.navigationButtonNames.search;
+        const form = new ActionFormWrapper()
+            .title(this.titleText)
+            .body(
+                ...(query.length > 0 ? [{ rawtext: [(typeof searchName === "string") ? { text: searchName } : searchName, { text: ": " + query }] }] : []),
+                `${page + 1} / ${pageCount}`
+            );
+
+        let next: (() => Promise<ActionFormListResult<T>> | ActionFormListResult<T>) | undefined;
+
+        for (const item of filteredItems.slice(page * this.itemsPerPage, (page + 1) * this.itemsPerPage)) {
+            form.button({
+                ...this.renderer(item),
+                on: () => {
+                    next = () => {
+                        this.selectEventCallbacks.forEach(callbackFn => {
+                            callbackFn({ player, item });
+                        });
+                        return { kind: "selected", item };
+                    };
+                }
+            });
+        }
+
+        if (page > 0) {
+            form.button({
+                name: this.navigationButtonNames.previous,
+                on: () => {
+                    next = () => this.requestPage(player, step, items, filteredItems, page - 1, query);
+                }
+            });
+        }
+
+        if (page < pageCount - 1) {
+            form.button({
+                name: this.navigationButtonNames.next,
+                on: () => {
+                    next = () => this.requestPage(player, step, items, filteredItems, page + 1, query);
+                }
+            });
+        }
+
+        if (pageCount > 2) {
+            form.button({
+                name: this.navigationButtonNames.jump,
+                on: () => {
+                    next = () => this.requestJump(player, step, items, filteredItems, page, query);
+                }
+            });
+        }
+
+        const searchOptions = this.searchOptions;
+        if (searchOptions !== undefined) {
+            form.button({
+                name: this.navigationButtonNames.search,
+                on: () => {
+                    next = () => this.requestSearch(player, step, items, query, searchOptions, () => this.requestPage(player, step, items, filteredItems, page, query));
+                }
+            });
+        }
+
+        return step(() => form.show(player).then(result => {
+            if (result.kind === "canceled") {
+                return result;
+            }
+            else if (next === undefined) {
+                throw new ServerFormError(new Error("押されたボタンに対応する操作が見つかりませんでした"));
+            }
+
+            return next();
+        }));
+    }
+
+    private pageCountOf(items: readonly T[]): number {
+        return Math.max(1, Math.ceil(items.length / this.itemsPerPage));
+    }
+}
+
+/**
+ * `ActionFormListWrapper`のページや検索のフォームを表示する関数
+ * <br>再試行の際に開き直すフォームを覚えておくために、各フォームの表示はこれを通して行います。
+ */
+type ActionFormListStep<T> = (display: () => Promise<ActionFormListResult<T>>) => Promise<ActionFormListResult<T>>;
+
+/**
+ * `ServerFormPresets.choose()`の選択肢
+ */
+export interface ServerFormChoice<T> extends ActionFormListButtonInput {
+    /**
+     * 選ばれたときに返す値
+     */
+    readonly value: T;
+}
+
+/**
+ * 確認や入力などのよく使われるフォームを1回の呼び出しで表示するための関数の集合<br>
+ * いずれもプレイヤーが他の画面を開いている間(`UserBusy`)は開き直しを続け、プレイヤーがフォームを閉じた場合や退出した場合は`undefined`に解決されます。
+ */
+export class ServerFormPresets {
+    private constructor() {}
+
+    /**
+     * 「はい」と「いいえ」で答える確認のフォームを表示します。
+     * @param player プレイヤー
+     * @param message 本文
+     * @returns 「はい」が押されたら`true`、「いいえ」が押されたら`false`に解決される`Promise`
+     */
+    public static confirm(player: Player, message: string | RawMessage): Promise<boolean | undefined> {
+        let accepted = false;
+
+        return new MessageFormWrapper()
+            .body(message)
+            .button1({
+                name: { translate: "gui.yes" },
+                on: () => {
+                    accepted = true;
+                }
+            })
+            .button2({ name: { translate: "gui.no" } })
+            .retryOnBusy()
+            .show(player)
+            .then(result => (result.kind === "canceled") ? undefined : accepted);
+    }
+
+    /**
+     * 値を1つ入力させるフォームを表示し、`model`の検査に通るまでエラーメッセージを添えて開き直します。<br>
+     * 入力欄の種類は`ModalFormWrapper.fromModel()`と同様に`model`から決まります。
+     * @param player プレイヤー
+     * @param label 入力欄のラベル
+     * @param model 入力値のモデル
+     * @returns `model`で検査・変換された値に解決される`Promise`
+     * @throws 入力欄に変換できない型のモデルが渡されたとき
+     */
+    public static prompt<T, O>(player: Player, label: string | RawMessage, model: TypeModel<T, O>): Promise<O | undefined> {
+        let value: O | undefined;
+
+        const form = ModalFormWrapper[SYMBOL_FOR_FROM_MODEL](sentry.structOf({ value: model }), { value: label }, values => {
+            value = values.value;
+            return {};
+        });
+
+        return form
+            .retryOnBusy()
+            .show(player)
+            .then(result => (result.kind === "canceled") ? undefined : value);
+    }
+
+    /**
+     * 選択肢をボタンとして並べたフォームを表示します。
+     * @param player プレイヤー
+     * @param options 選択肢
+     * @returns 選ばれた選択肢の値に解決される`Promise`
+     */
+    public static choose<T>(player: Player, options: readonly ServerFormChoice<T>[]): Promise<T | undefined> {
+        const form = new ActionFormWrapper();
+        let selected: ServerFormChoice<T> | undefined;
+
+        for (const option of options) {
+            form.button({
+                name: option.name,
+                ...(option.iconPath === undefined ? {} : { iconPath: option.iconPath }),
+                on: () => {
+                    selected = option;
+                }
+            });
+        }
+
+        return form
+            .retryOnBusy()
+            .show(player)
+            .then(result => (result.kind === "canceled" || selected === undefined) ? undefined : selected.value);
+    }
+}
+
+/**
+ * ルート名をキー、ルートパラメータの型を値とする型
+ */
+export type ServerFormRoutes = Record<string, unknown>;
+
+/**
+ * ルートパラメータが不要なルートでは省略できるようにした残余引数の型
+ */
+type ServerFormRouteArguments<R extends ServerFormRoutes, K extends keyof R> = undefined extends R[K] ? [params?: R[K]] : [params: R[K]];
+
+/**
+ * ページを生成する関数に渡される引数
+ */
+export interface ServerFormNavigationContext<R extends ServerFormRoutes, K extends keyof R & string> {
+    /**
+     * プレイヤー
+     */
+    readonly player: Player;
+
+    /**
+     * ルート名
+     */
+    readonly route: K;
+
+    /**
+     * ルートパラメータ
+     */
+    readonly params: R[K];
+
+    /**
+     * このページを開いたナビゲーター
+     */
+    readonly navigator: ServerFormNavigator<R>;
+
+    /**
+     * 最初のページからこのページまでのルート名
+     */
+    readonly breadcrumbs: readonly (keyof R & string)[];
+}
+
+/**
+ * ナビゲーションの履歴の1項目
+ */
+interface ServerFormNavigationEntry<R extends ServerFormRoutes> {
+    readonly route: keyof R & string;
+
+    readonly params: R[keyof R & string];
+}
+
+/**
+ * フォームをページとして扱い、プレイヤーごとの履歴を管理するクラス<br>
+ * `ActionFormWrapper`のページには戻るボタンが自動で追加され、フォームを閉じると前のページが開き直されます。
+ */
+export class ServerFormNavigator<R extends ServerFormRoutes> {
+    private readonly pages: Map<keyof R & string, (context: ServerFormNavigationContext<R, keyof R & string>) => ServerFormWrapper> = new Map();
+
+    private readonly stacks: Map<string, ServerFormNavigationEntry<R>[]> = new Map();
+
+    private readonly forwardStacks: Map<string, ServerFormNavigationEntry<R>[]> = new Map();
+
+    private backButtonName: string | RawMessage = { translate: "gui.back" };
+
+    /**
+     * `ServerFormNavigator`のインスタンスを生成します。
+     */
+    public constructor() {
+        world.afterEvents.playerLeave.subscribe(event => {
+            this.stacks.delete(event.playerId);
+            this.forwardStacks.delete(event.playerId);
+        });
+    }
+
+    /**
+     * ページを登録します。
+     * @param route ルート名
+     * @param page ページのフォームを生成する関数 (同じインスタンスを返してもよく、戻るボタンはそのインスタンスに追加されない)
+     * @returns `this`
+     */
+    public route<K extends keyof R & string>(route: K, page: (context: ServerFormNavigationContext<R, K>) => ServerFormWrapper): this {
+        this.pages.set(route, page as (context: ServerFormNavigationContext<R, keyof R & string>) => ServerFormWrapper);
+        return this;
+    }
+
+    /**
+     * 自動で追加される戻るボタンの名前を変更します。
+     * @param name ボタンの名前
+     * @returns `this`
+     */
+    public backButton(name: string | RawMessage): this {
+        this.backButtonName = name;
+        return this;
+    }
+
+    /**
+     * 新しいページを履歴に積んで開きます。
+     * @param player プレイヤー
+     * @param route ルート名
+     * @param params ルートパラメータ
+     */
+    public push<K extends keyof R & string>(player: Player, route: K, ...[params]: ServerFormRouteArguments<R, K>): void {
+        this.stackOf(player).push({ route, params: params as R[keyof R & string] });
+        this.forwardStacks.delete(player.id);
+        this.display(player);
+    }
+
+    /**
+     * 現在のページを履歴から取り除き、前のページを開きます。<br>
+     * 最初のページで呼び出された場合は履歴を破棄します。
+     * @param player プレイヤー
+     */
+    public pop(player: Player): void {
+        const stack = this.stackOf(player);
+        const entry = stack.pop();
+
+        if (entry !== undefined) {
+            const forwardStack = this.forwardStacks.get(player.id) ?? [];
+            forwardStack.push(entry);
+            this.forwardStacks.set(player.id, forwardStack);
+        }
+
+        if (stack.length === 0) {
+            this.stacks.delete(player.id);
+            return;
+        }
+
+        this.display(player);
+    }
+
+    /**
+     * `pop()`で取り除かれたページを再び履歴に積んで開きます。
+     * @param player プレイヤー
+     * @returns 進む先のページが存在すれば真
+     */
+    public forward(player: Player): boolean {
+        const entry = this.forwardStacks.get(player.id)?.pop();
+
+        if (entry === undefined) {
+            return false;
+        }
+
+        this.stackOf(player).push(entry);
+        this.display(player);
+        return true;
+    }
+
+    /**
+     * 現在のページを新しいページで置き換えて開きます。
+     * @param player プレイヤー
+     * @param route ルート名
+     * @param params ルートパラメータ
+     */
+    public replace<K extends keyof R & string>(player: Player, route: K, ...[params]: ServerFormRouteArguments<R, K>): void {
+        const stack = this.stackOf(player);
+        stack.pop();
+        stack.push({ route, params: params as R[keyof R & string] });
+        this.forwardStacks.delete(player.id);
+        this.display(player);
+    }
+
+    /**
+     * 履歴を破棄し、指定のページを最初のページとして開きます。
+     * @param player プレイヤー
+     * @param route ルート名
+     * @param params ルートパラメータ
+     */
+    public reset<K extends keyof R & string>(player: Player, route: K, ...[params]: ServerFormRouteArguments<R, K>): void {
+        this.stacks.set(player.id, [{ route, params: params as R[keyof R & string] }]);
+        this.forwardStacks.delete(player.id);
+        this.display(player);
+    }
+
+    /**
+     * 最初のページから現在のページまでのルート名を返します。
+     * @param player プレイヤー
+     */
+    public getBreadcrumbs(player: Player): (keyof R & string)[] {
+        return (this.stacks.get(player.id) ?? []).map(({ route }) => route);
+    }
+
+    private stackOf(player: Player): ServerFormNavigationEntry<R>[] {
+        const stack = this.stacks.get(player.id) ?? [];
+        this.stacks.set(player.id, stack);
+        return stack;
+    }
+
+    private display(player: Player): void {
+        const stack = this.stackOf(player);
+        const entry = stack[stack.length - 1];
+
+        if (entry === undefined) {
+            throw new ServerFormError(new Error("表示するページが履歴に存在しません"));
+        }
+
+        const page = this.pages.get(entry.route);
+
+        if (page === undefined) {
+            throw new ServerFormError(new Error("ルートが登録されていません: " + entry.route));
+        }
+
+        const form = page({
+            player,
+            route: entry.route,
+            params: entry.params,
+            navigator: this,
+            breadcrumbs: this.getBreadcrumbs(player)
+        });
+
+        // ページの生成関数がフォームを使い回してもよいように、戻るボタンと閉じたときの処理はこの表示に限って加える
+        // ページの onCancel から reopen() した場合も、戻るボタンのついたこのページとして開き直される
+        const cancelation: ServerFormCancelation = {
+            reopen: () => {
+                if (this.isCurrent(player, entry)) this.display(player);
+            },
+            callbackFn: (event, gaveUp) => {
+                if (!this.isCurrent(player, entry)) return;
+
+                if (event.reason === "UserBusy") {
+                    // ページの retryOnBusy() が再試行を諦めた場合は開き直さない
+                    if (!gaveUp) event.reopen();
+                }
+                else if (event.reason === "UserClosed") {
+                    this.pop(player);
+                }
+            }
+        };
+
+        if (form instanceof ActionFormWrapper && stack.length > 1) {
+            form[SYMBOL_FOR_OPEN_WITH_BUTTONS](player, [{ name: this.backButtonName, on: () => this.pop(player) }], cancelation);
+        }
+        else {
+            form[SYMBOL_FOR_OPEN](player, cancelation);
+        }
+    }
+
+    private isCurrent(player: Player, entry: ServerFormNavigationEntry<R>): boolean {
+        const stack = this.stacks.get(player.id);
+        return stack !== undefined && stack[stack.length - 1] === entry;
+    }
+}
+
+/**
+ * JSONで記述されたフォームにおける文字列 (`RawMessage`も使用可能)
+ */
+export type ServerFormTextJSON = string | RawMessage;
+
+/**
+ * JSONで記述されたフォームのラベル
+ */
+export interface LabelJSON {
+    readonly type: "label";
+
+    readonly id: string;
+
+    readonly text: ServerFormTextJSON;
+}
+
+/**
+ * JSONで記述されたフォームのヘッダー
+ */
+export interface HeaderJSON {
+    readonly type: "header";
+
+    readonly id: string;
+
+    readonly text: ServerFormTextJSON;
+}
+
+/**
+ * JSONで記述されたフォームの区切り
+ */
+export interface DividerJSON {
+    readonly type: "divider";
+
+    readonly id: string;
+}
+
+/**
+ * JSONで記述されたActionFormのボタン
+ */
+export interface ActionButtonJSON {
+    readonly type: "button";
+
+    readonly name: ServerFormTextJSON;
+
+    readonly iconPath?: string;
+
+    readonly tags?: string[];
+
+    /**
+     * `ServerFormHandlerRegistry.button()`で登録されたハンドラーのID
+     */
+    readonly handler?: string;
+}
+
+/**
+ * JSONで記述されたMessageFormのボタン
+ */
+export interface MessageButtonJSON {
+    readonly name: ServerFormTextJSON;
+
+    /**
+     * `ServerFormHandlerRegistry.button()`で登録されたハンドラーのID
+     */
+    readonly handler?: string;
+}
+
+/**
+ * JSONで記述されたModalFormの送信ボタン
+ */
+export interface SubmitButtonJSON {
+    readonly name: ServerFormTextJSON;
+
+    /**
+     * `ServerFormHandlerRegistry.submit()`で登録されたハンドラーのID
+     */
+    readonly handler?: string;
+}
+
+/**
+ * JSONで記述されたModalFormのトグル
+ */
+export interface ModalFormToggleJSON {
+    readonly type: "toggle";
+
+    readonly id: string;
+
+    readonly label: ServerFormTextJSON;
+
+    readonly defaultValue?: boolean;
+}
+
+/**
+ * JSONで記述されたModalFormのスライダー
+ */
+export interface ModalFormSliderJSON {
+    readonly type: "slider";
+
+    readonly id: string;
+
+    readonly label: ServerFormTextJSON;
+
+    readonly range: NumberRange;
+
+    readonly step?: number;
+
+    readonly defaultValue?: number;
+}
+
+/**
+ * JSONで記述されたModalFormのドロップダウン
+ */
+export interface ModalFormDropdownJSON {
+    readonly type: "dropdown";
+
+    readonly id: string;
+
+    readonly label: ServerFormTextJSON;
+
+    readonly list: DropdownOption[];
+
+    readonly defaultValueIndex?: number;
+}
+
+/**
+ * JSONで記述されたModalFormのテキストフィールド
+ */
+export interface ModalFormTextFieldJSON {
+    readonly type: "textField";
+
+    readonly id: string;
+
+    readonly label: ServerFormTextJSON;
+
+    readonly placeHolder: ServerFormTextJSON;
+
+    readonly defaultValue?: string;
+}
+
+/**
+ * JSONで記述されたActionForm
+ */
+export interface ActionFormJSON {
+    readonly type: "action";
+
+    readonly title?: ServerFormTextJSON;
+
+    readonly body?: ServerFormTextJSON | ServerFormTextJSON[];
+
+    readonly elements: (ActionButtonJSON | LabelJSON | HeaderJSON | DividerJSON)[];
+}
+
+/**
+ * JSONで記述されたModalForm
+ */
+export interface ModalFormJSON {
+    readonly type: "modal";
+
+    readonly title?: ServerFormTextJSON;
+
+    readonly submitButton?: SubmitButtonJSON;
+
+    readonly elements: (ModalFormToggleJSON | ModalFormSliderJSON | ModalFormDropdownJSON | ModalFormTextFieldJSON | LabelJSON | HeaderJSON | DividerJSON)[];
+}
+
+/**
+ * JSONで記述されたMessageForm
+ */
+export interface MessageFormJSON {
+    readonly type: "message";
+
+    readonly title?: ServerFormTextJSON;
+
+    readonly body: ServerFormTextJSON | ServerFormTextJSON[];
+
+    readonly button1: MessageButtonJSON;
+
+    readonly button2: MessageButtonJSON;
+}
+
+/**
+ * JSONで記述されたフォーム
+ */
+export type ServerFormJSON = ActionFormJSON | ModalFormJSON | MessageFormJSON;
+
+const textJSONModel: TypeModel<ServerFormTextJSON> = sentry.unionOf(sentry.string, mcsentry.rawMessage);
+
+const bodyJSONModel: TypeModel<ServerFormTextJSON | ServerFormTextJSON[]> = sentry.unionOf(textJSONModel, sentry.arrayOf(textJSONModel));
+
+const labelJSONModel = sentry.structOf({
+    type: sentry.literalOf("label"),
+    id: sentry.string,
+    text: textJSONModel
+}).exact();
+
+const headerJSONModel = sentry.structOf({
+    type: sentry.literalOf("header"),
+    id: sentry.string,
+    text: textJSONModel
+}).exact();
+
+const dividerJSONModel = sentry.structOf({
+    type: sentry.literalOf("divider"),
+    id: sentry.string
+}).exact();
+
+const serverFormJSONModel: TypeModel<ServerFormJSON> = sentry.discriminatedUnionOf("type", {
+    action: sentry.structOf({
+        type: sentry.literalOf("action"),
+        title: sentry.optionalOf(textJSONModel),
+        body: sentry.optionalOf(bodyJSONModel),
+        elements: sentry.arrayOf(sentry.discriminatedUnionOf("type", {
+            button: sentry.structOf({
+                type: sentry.literalOf("button"),
+                name: textJSONModel,
+                iconPath: sentry.optionalOf(sentry.string),
+                tags: sentry.optionalOf(sentry.arrayOf(sentry.string)),
+                handler: sentry.optionalOf(sentry.string)
+            }).exact(),
+            label: labelJSONModel,
+            header: headerJSONModel,
+            divider: dividerJSONModel
+        }))
+    }).exact(),
+    modal: sentry.structOf({
+        type: sentry.literalOf("modal"),
+        title: sentry.optionalOf(textJSONModel),
+        submitButton: sentry.optionalOf(sentry.structOf({
+            name: textJSONModel,
+            handler: sentry.optionalOf(sentry.string)
+        }).exact()),
+        elements: sentry.arrayOf(sentry.discriminatedUnionOf("type", {
+            toggle: sentry.structOf({
+                type: sentry.literalOf("toggle"),
+                id: sentry.string,
+                label: textJSONModel,
+                defaultValue: sentry.optionalOf(sentry.boolean)
+            }).exact(),
+            slider: sentry.structOf({
+                type: sentry.literalOf("slider"),
+                id: sentry.string,
+                label: textJSONModel,
+                range: numberRangeModel,
+                step: sentry.optionalOf(sentry.number.finite().positive()),
+                defaultValue: sentry.optionalOf(sentry.number.finite())
+            }).exact(),
+            dropdown: sentry.structOf({
+                type: sentry.literalOf("dropdown"),
+                id: sentry.string,
+                label: textJSONModel,
+                list: sentry.arrayOf(dropdownOptionModel).withLength({ min: 1 }),
+                defaultValueIndex: sentry.optionalOf(sentry.int)
+            }).exact(),
+            textField: sentry.structOf({
+                type: sentry.literalOf("textField"),
+                id: sentry.string,
+                label: textJSONModel,
+                placeHolder: textJSONModel,
+                defaultValue: sentry.optionalOf(sentry.string)
+            }).exact(),
+            label: labelJSONModel,
+            header: headerJSONModel,
+            divider: dividerJSONModel
+        }).refine(
+            element => element.type !== "slider" || element.defaultValue === undefined || (element.range.min <= element.defaultValue && element.defaultValue <= element.range.max),
+            "defaultValueがrangeの範囲外です"
+        ).refine(
+            element => element.type !== "dropdown" || element.defaultValueIndex === undefined || (0 <= element.defaultValueIndex && element.defaultValueIndex < element.list.length),
+            "defaultValueIndexがlistの範囲外です"
+        )).refine(
+            // 送信値は要素のIDをキーとするため、重複すると値が上書きされる
+            elements => elements.every((element, index) => elements.findIndex(other => other.id === element.id) === index),
+            "要素のIDが重複しています"
+        )
+    }).exact(),
+    message: sentry.structOf({
+        type: sentry.literalOf("message"),
+        title: sentry.optionalOf(textJSONModel),
+        body: bodyJSONModel,
+        button1: sentry.structOf({
+            name: textJSONModel,
+            handler: sentry.optionalOf(sentry.string)
+        }).exact(),
+        button2: sentry.structOf({
+            name: textJSONModel,
+            handler: sentry.optionalOf(sentry.string)
+        }).exact()
+    }).exact()
+});
+
+/**
+ * JSONで記述されたフォームのボタンなどから呼び出される関数をIDで登録するクラス
+ */
+export class ServerFormHandlerRegistry {
+    private readonly buttonHandlers: Map<string, (player: Player) => void> = new Map();
+
+    private readonly submitHandlers: Map<string, (event: ModalFormSubmitEvent) => void> = new Map();
+
+    /**
+     * `ServerFormHandlerRegistry`のインスタンスを生成します。
+     */
+    public constructor() {}
+
+    /**
+     * ボタンが押されたときに呼び出される関数を登録します。
+     * @param id ハンドラーのID
+     * @param callbackFn コールバック関数
+     * @returns `this`
+     * @throws `id`が既に登録されているとき
+     */
+    public button(id: string, callbackFn: (player: Player) => void): this {
+        if (this.buttonHandlers.has(id)) {
+            throw new ServerFormError(new Error("ハンドラーのIDが重複しています: " + id));
+        }
+
+        this.buttonHandlers.set(id, callbackFn);
+        return this;
+    }
+
+    /**
+     * ModalFormが送信されたときに呼び出される関数を登録します。
+     * @param id ハンドラーのID
+     * @param callbackFn コールバック関数
+     * @returns `this`
+     * @throws `id`が既に登録されているとき
+     */
+    public submit(id: string, callbackFn: (event: ModalFormSubmitEvent) => void): this {
+        if (this.submitHandlers.has(id)) {
+            throw new ServerFormError(new Error("ハンドラーのIDが重複しています: " + id));
+        }
+
+        this.submitHandlers.set(id, callbackFn);
+        return this;
+    }
+
+    /**
+     * ボタンのハンドラーを取得します。
+     * @param id ハンドラーのID
+     * @throws `id`が登録されていないとき
+     */
+    public getButtonHandler(id: string): (player: Player) => void {
+        const handler = this.buttonHandlers.get(id);
+
+        if (handler === undefined) {
+            throw new ServerFormError(new Error("ボタンのハンドラーが登録されていません: " + id));
+        }
+
+        return handler;
+    }
+
+    /**
+     * 送信ボタンのハンドラーを取得します。
+     * @param id ハンドラーのID
+     * @throws `id`が登録されていないとき
+     */
+    public getSubmitHandler(id: string): (event: ModalFormSubmitEvent) => void {
+        const handler = this.submitHandlers.get(id);
+
+        if (handler === undefined) {
+            throw new ServerFormError(new Error("送信ボタンのハンドラーが登録されていません: " + id));
+        }
+
+        return handler;
+    }
+}
+
+/**
+ * JSONで記述されたフォームを読み込み、フォームのインスタンスを生成するクラス
+ */
+export class ServerFormJSONReader {
+    private readonly registry: ServerFormHandlerRegistry;
+
+    /**
+     * `ServerFormJSONReader`のインスタンスを生成します。
+     * @param registry ボタンのハンドラーの登録先
+     */
+    public constructor(registry: ServerFormHandlerRegistry) {
+        this.registry = registry;
+    }
+
+    /**
+     * JSON文字列からフォームを生成します。
+     * @param text JSON文字列
+     * @returns フォーム
+     * @throws JSONとして解釈できないとき、フォームの形式に一致しないとき、未登録のハンドラーが指定されたとき
+     */
+    public parse(text: string): ActionFormWrapper | ModalFormWrapper<ModalFormValues> | MessageFormWrapper {
+        let value: unknown;
+
+        try {
+            value = JSON.parse(text);
+        }
+        catch (error) {
+            throw new ServerFormError(error as Error);
+        }
+
+        return this.read(value);
+    }
+
+    /**
+     * JSONの値からフォームを生成します。
+     * @param value `JSON.parse()`などで得られた値
+     * @returns フォーム
+     * @throws フォームの形式に一致しないとき、未登録のハンドラーが指定されたとき
+     */
+    public read(value: unknown): ActionFormWrapper | ModalFormWrapper<ModalFormValues> | MessageFormWrapper {
+        const result = serverFormJSONModel.validate(value);
+
+        if (!result.success) {
+            throw new ServerFormError(new Error(
+                "フォームの形式が正しくありません"
+                + result.issues.map(issue => `\n    at '${issue.path}': ${issue.message}`).join("")
+            ));
+        }
+
+        const definition = result.value;
+
+        switch (definition.type) {
+            case "action":
+                return this.action(definition);
+            case "modal":
+                return this.modal(definition);
+            case "message":
+                return this.message(definition);
+        }
+    }
+
+    private action(definition: ActionFormJSON): ActionFormWrapper {
+        const form = new ActionFormWrapper();
+
+        if (definition.title !== undefined) {
+            form.title(definition.title);
+        }
+
+        if (definition.body !== undefined) {
+            form.body(...(Array.isArray(definition.body) ? definition.body : [definition.body]));
+        }
+
+        for (const element of definition.elements) {
+            switch (element.type) {
+                case "button":
+                    form.button({
+                        name: element.name,
+                        ...(element.iconPath === undefined ? {} : { iconPath: element.iconPath }),
+                        ...(element.tags === undefined ? {} : { tags: element.tags }),
+                        ...(element.handler === undefined ? {} : { on: this.registry.getButtonHandler(element.handler) })
+                    });
+                    break;
+                default:
+                    this.decoration(form, element);
+                    break;
+            }
+        }
+
+        return form;
+    }
+
+    private modal(definition: ModalFormJSON): ModalFormWrapper<ModalFormValues> {
+        const form = new ModalFormWrapper<ModalFormValues>();
+
+        if (definition.title !== undefined) {
+            form.title(definition.title);
+        }
+
+        if (definition.submitButton !== undefined) {
+            form.submitButton({
+                name: definition.submitButton.name,
+                ...(definition.submitButton.handler === undefined ? {} : { on: this.registry.getSubmitHandler(definition.submitButton.handler) })
+            });
+        }
+
+        for (const element of definition.elements) {
+            switch (element.type) {
+                case "toggle":
+                    form.toggle(element);
+                    break;
+                case "slider":
+                    form.slider(element);
+                    break;
+                case "dropdown":
+                    form.dropdown(element);
+                    break;
+                case "textField":
+                    form.textField(element);
+                    break;
+                default:
+                    this.decoration(form, element);
+                    break;
+            }
+        }
+
+        return form;
+    }
+
+    private message(definition: MessageFormJSON): MessageFormWrapper {
+        const form = new MessageFormWrapper()
+            .body(...(Array.isArray(definition.body) ? definition.body : [definition.body]))
+            .button1(this.messageButton(definition.button1))
+            .button2(this.messageButton(definition.button2));
+
+        if (definition.title !== undefined) {
+            form.title(definition.title);
+        }
+
+        return form;
+    }
+
+    private messageButton(definition: MessageButtonJSON): MessageButtonInput {
+        return {
+            name: definition.name,
+            ...(definition.handler === undefined ? {} : { on: this.registry.getButtonHandler(definition.handler) })
+        };
+    }
+
+    private decoration(form: Decoratable, element: LabelJSON | HeaderJSON | DividerJSON): void {
+        switch (element.type) {
+            case "label":
+                form.label({ id: element.id, text: element.text });
+                break;
+            case "header":
+                form.header({ id: element.id, text: element.text });
+                break;
+            case "divider":
+                form.divider({ id: element.id });
+                break;
         }
     }
 }
@@ -12,8 +12,13 @@ export class Identifier {
         return this.namespace + ':' + this.value;
     }
 
-    public static of(string: string): Identifier {
-        return IdentifierParser.readIdentifier(string);
+    public static of(string: string, defaultNamespace?: string): Identifier {
+        if (defaultNamespace === undefined) {
+            return IdentifierParser.readIdentifier(string);
+        }
+        else {
+            return IdentifierParser.readDeaultedIdentifier(defaultNamespace, string);
+        }
     }
 }
 
@@ -80,6 +85,11 @@ class IdentifierParser extends AbstractParser<Identifier, IdentifierParseError>
         let value: string;
 
         if (hasSecond) {
+            // first()は区切り文字の手前で止まるため、読み飛ばさなければ値の先頭に':'が残る
+            if (this.next(false, ':') === undefined) {
+                throw this.exception("区切り文字( : )がありません");
+            }
+
             namespace = first;
             value = this.second();
         }
@@ -619,6 +619,10 @@ export class DualAxisRotationBuilder implements Vector2, IVectorBuilder<DualAxis
         );
     }
 
+    public getQuaternion(): QuaternionBuilder {
+        return QuaternionBuilder.from(this);
+    }
+
     public isZero(): boolean {
         return this.equals(DualAxisRotationBuilder.zero());
     }
@@ -817,6 +821,10 @@ export class TripleAxisRotationBuilder implements IVectorBuilder<TripleAxisRotat
         return new TripleAxisRotationBuilder.ObjectCoordsSystem(this);
     }
 
+    public getQuaternion(): QuaternionBuilder {
+        return QuaternionBuilder.from(this);
+    }
+
     public isZero(): boolean {
         return this.equals(TripleAxisRotationBuilder.zero());
     }
@@ -906,3 +914,1633 @@ export class TripleAxisRotationBuilder implements IVectorBuilder<TripleAxisRotat
         }
     }
 }
+
+export class QuaternionBuilder implements IVectorBuilder<QuaternionBuilder> {
+    private __w__: number;
+    private __x__: number;
+    private __y__: number;
+    private __z__: number;
+
+    public constructor(w: number, x: number, y: number, z: number) {
+        const nonNaNNumber = sentry.number.nonNaN();
+
+        if (!(nonNaNNumber.test(w) && nonNaNNumber.test(x) && nonNaNNumber.test(y) && nonNaNNumber.test(z))) {
+            throw new TypeError("クォータニオンの成分はNaNでない数値である必要があります");
+        }
+
+        this.__w__ = w;
+        this.__x__ = x;
+        this.__y__ = y;
+        this.__z__ = z;
+    }
+
+    public get w(): number {
+        return this.__w__;
+    }
+
+    public set w(value: number) {
+        if (!sentry.number.nonNaN().test(value)) {
+            throw new TypeError("クォータニオンの成分はNaNでない数値である必要があります");
+        }
+
+        this.__w__ = value;
+    }
+
+    public get x(): number {
+        return this.__x__;
+    }
+
+    public set x(value: number) {
+        if (!sentry.number.nonNaN().test(value)) {
+            throw new TypeError("クォータニオンの成分はNaNでない数値である必要があります");
+        }
+
+        this.__x__ = value;
+    }
+
+    public get y(): number {
+        return this.__y__;
+    }
+
+    public set y(value: number) {
+        if (!sentry.number.nonNaN().test(value)) {
+            throw new TypeError("クォータニオンの成分はNaNでない数値である必要があります");
+        }
+
+        this.__y__ = value;
+    }
+
+    public get z(): number {
+        return this.__z__;
+    }
+
+    public set z(value: number) {
+        if (!sentry.number.nonNaN().test(value)) {
+            throw new TypeError("クォータニオンの成分はNaNでない数値である必要があります");
+        }
+
+        this.__z__ = value;
+    }
+
+    public equals(other: unknown): boolean {
+        if (other instanceof QuaternionBuilder) {
+            return this.__w__ === other.__w__
+                && this.__x__ === other.__x__
+                && this.__y__ === other.__y__
+                && this.__z__ === other.__z__;
+        }
+        else return false;
+    }
+
+    public operate(callbackFn: (comopnent: number) => number): QuaternionBuilder;
+
+    public operate(other: QuaternionBuilder, callbackFn: (comopnent1: number, comopnent2: number) => number): QuaternionBuilder;
+
+    public operate(other1: QuaternionBuilder, other2: QuaternionBuilder, callbackFn: (comopnent1: number, comopnent2: number, component3: number) => number): QuaternionBuilder;
+
+    public operate(a: QuaternionBuilder | ((comopnent: number) => number), b?: QuaternionBuilder | ((comopnent1: number, comopnent2: number) => number), c?: (component1: number, component2: number, component3: number) => number): QuaternionBuilder {
+        if (typeof a === "function" && b === undefined && c === undefined) {
+            this.w = a(this.__w__);
+            this.x = a(this.__x__);
+            this.y = a(this.__y__);
+            this.z = a(this.__z__);
+        }
+        else if (a instanceof QuaternionBuilder && typeof b === "function" && c === undefined) {
+            this.w = b(this.__w__, a.__w__);
+            this.x = b(this.__x__, a.__x__);
+            this.y = b(this.__y__, a.__y__);
+            this.z = b(this.__z__, a.__z__);
+        }
+        else if (a instanceof QuaternionBuilder && b instanceof QuaternionBuilder && typeof c === "function") {
+            this.w = c(this.__w__, a.__w__, b.__w__);
+            this.x = c(this.__x__, a.__x__, b.__x__);
+            this.y = c(this.__y__, a.__y__, b.__y__);
+            this.z = c(this.__z__, a.__z__, b.__z__);
+        }
+        else {
+            throw new TypeError("NEVER HAPPENS");
+        }
+        return this;
+    }
+
+    public add(other: QuaternionBuilder): QuaternionBuilder {
+        return this.operate(other, (a, b) => a + b);
+    }
+
+    public subtract(other: QuaternionBuilder): QuaternionBuilder {
+        return this.operate(other, (a, b) => a - b);
+    }
+
+    public scale(scalar: number): QuaternionBuilder {
+        if (!sentry.number.nonNaN().test(scalar)) {
+            throw new TypeError("倍率はNaNでない数値である必要があります");
+        }
+
+        return this.operate(component => component * scalar);
+    }
+
+    public divide(scalar: number): QuaternionBuilder {
+        if (!sentry.number.nonNaN().test(scalar)) {
+            throw new TypeError("割る数はNaNでない数値である必要があります");
+        }
+
+        if (scalar === 0) {
+            throw new TypeError("0は割る数として無効です");
+        }
+
+        return this.operate(component => component / scalar);
+    }
+
+    public multiply(other: QuaternionBuilder): QuaternionBuilder {
+        const w1 = this.__w__;
+        const x1 = this.__x__;
+        const y1 = this.__y__;
+        const z1 = this.__z__;
+        const { w: w2, x: x2, y: y2, z: z2 } = other;
+
+        this.__w__ = w1 * w2 - x1 * x2 - y1 * y2 - z1 * z2;
+        this.__x__ = w1 * x2 + x1 * w2 + y1 * z2 - z1 * y2;
+        this.__y__ = w1 * y2 - x1 * z2 + y1 * w2 + z1 * x2;
+        this.__z__ = w1 * z2 + x1 * y2 - y1 * x2 + z1 * w2;
+
+        return this;
+    }
+
+    public conjugate(): QuaternionBuilder {
+        this.__x__ *= -1;
+        this.__y__ *= -1;
+        this.__z__ *= -1;
+        return this;
+    }
+
+    public inverse(): QuaternionBuilder {
+        const squared = this.dot(this);
+
+        if (squared === 0) {
+            throw new TypeError("長さが0のクォータニオンは逆元を持ちません");
+        }
+
+        return this.conjugate().divide(squared);
+    }
+
+    public dot(other: QuaternionBuilder): number {
+        return this.__w__ * other.w + this.__x__ * other.x + this.__y__ * other.y + this.__z__ * other.z;
+    }
+
+    public length(): number;
+
+    public length(length: number): QuaternionBuilder;
+
+    public length(length?: number): number | QuaternionBuilder {
+        if (length === undefined) {
+            return Math.sqrt(this.dot(this));
+        }
+        else if (sentry.number.nonNaN().test(length)) {
+            const previous = this.length();
+
+            if (previous === 0) {
+                return this;
+            }
+
+            return this.operate(component => component / previous * length);
+        }
+        else {
+            throw new TypeError("クォータニオンの長さはNaNでない数値である必要があります");
+        }
+    }
+
+    public normalize(): QuaternionBuilder {
+        return this.length(1);
+    }
+
+    public slerp(other: QuaternionBuilder, s: number): QuaternionBuilder {
+        if (!sentry.number.nonNaN().test(s)) {
+            throw new TypeError("sはNaNでない数値である必要があります");
+        }
+
+        const from = this.clone().normalize();
+        const to = other.clone().normalize();
+        let cos = from.dot(to);
+
+        // 同じ回転を表す2つのクォータニオンのうち、近い方に向かって補間する
+        if (cos < 0) {
+            to.scale(-1);
+            cos *= -1;
+        }
+
+        if (cos > 0.9995) {
+            return from.operate(to, (a, b) => (1 - s) * a + s * b).normalize();
+        }
+
+        const angle = Math.acos(cos);
+
+        const p1 = Math.sin(angle * (1 - s)) / Math.sin(angle);
+        const p2 = Math.sin(angle * s) / Math.sin(angle);
+
+        return from.scale(p1).add(to.scale(p2));
+    }
+
+    public apply(vector: Vector3): Vector3Builder {
+        const normalized = this.clone().normalize();
+        const axis = new Vector3Builder(normalized.__x__, normalized.__y__, normalized.__z__);
+        const t = axis.cross(vector).scale(2);
+
+        return Vector3Builder.from(vector).clone()
+            .add(t.clone().scale(normalized.__w__))
+            .add(axis.cross(t));
+    }
+
+    public clamp(min: QuaternionBuilder, max: QuaternionBuilder): QuaternionBuilder {
+        return this.operate(min, max, (val, min, max) => {
+            return Math.max(min, Math.min(val, max));
+        });
+    }
+
+    public clone(): QuaternionBuilder {
+        return new QuaternionBuilder(this.__w__, this.__x__, this.__y__, this.__z__);
+    }
+
+    public format(format: string, digits: number): string {
+        if (!sentry.number.nonNaN().int().test(digits)) {
+            throw new TypeError("桁数はNaNでない整数値である必要があります");
+        }
+        else if (digits < 0 || digits > 20) {
+            throw new RangeError("digitsに使用可能な値は0以上20以下です");
+        }
+
+        const cw = this.__w__.toFixed(digits);
+        const cx = this.__x__.toFixed(digits);
+        const cy = this.__y__.toFixed(digits);
+        const cz = this.__z__.toFixed(digits);
+
+        return format
+            .replace(/\$w/g, cw)
+            .replace(/\$x/g, cx)
+            .replace(/\$y/g, cy)
+            .replace(/\$z/g, cz)
+            .replace("$c", cw)
+            .replace("$c", cx)
+            .replace("$c", cy)
+            .replace("$c", cz)
+            .replace(/\$c/g, "");
+    }
+
+    public toString(): string {
+        return this.format("($w, $x, $y, $z)", 3);
+    }
+
+    public getRotation2f(): DualAxisRotationBuilder {
+        const rotation = this.getRotation3f();
+        return new DualAxisRotationBuilder(rotation.yaw, rotation.pitch);
+    }
+
+    public getRotation3f(): TripleAxisRotationBuilder {
+        const x = this.apply(Vector3Builder.left());
+        const y = this.apply(Vector3Builder.up());
+        const z = this.apply(Vector3Builder.forward());
+        const pitch = Math.asin(Math.max(-1, Math.min(-z.y, 1))) * 180 / Math.PI;
+
+        // ジンバルロック: yawとrollが区別できないので、rollを0としてyawに寄せる
+        if (Math.hypot(z.x, z.z) < 1e-9) {
+            return new TripleAxisRotationBuilder(
+                Math.atan2(x.z, x.x) * 180 / Math.PI,
+                pitch,
+                0
+            );
+        }
+
+        return new TripleAxisRotationBuilder(
+            Math.atan2(-z.x, z.z) * 180 / Math.PI,
+            pitch,
+            Math.atan2(x.y, y.y) * 180 / Math.PI
+        );
+    }
+
+    public isZero(): boolean {
+        return this.equals(QuaternionBuilder.zero());
+    }
+
+    public static zero(): QuaternionBuilder {
+        return new this(0, 0, 0, 0);
+    }
+
+    public static identity(): QuaternionBuilder {
+        return new this(1, 0, 0, 0);
+    }
+
+    public static filled(value: number): QuaternionBuilder {
+        return new this(value, value, value, value);
+    }
+
+    public static fromAxisAngle(axis: Vector3, angle: number): QuaternionBuilder {
+        if (!sentry.number.nonNaN().test(angle)) {
+            throw new TypeError("角度はNaNでない数値である必要があります");
+        }
+
+        const normalized = Vector3Builder.from(axis).clone().normalize();
+
+        if (normalized.isZero()) {
+            throw new TypeError("回転軸は零ベクトルであってはなりません");
+        }
+
+        const halfAngleInRad = angle * Math.PI / 360;
+        const sin = Math.sin(halfAngleInRad);
+
+        return new this(
+            Math.cos(halfAngleInRad),
+            normalized.x * sin,
+            normalized.y * sin,
+            normalized.z * sin
+        );
+    }
+
+    public static from(rotation: DualAxisRotationBuilder | TripleAxisRotationBuilder): QuaternionBuilder {
+        const roll = (rotation instanceof TripleAxisRotationBuilder) ? rotation.roll : 0;
+
+        // getObjectCoordsSystem()の座標系に合わせ、Y軸まわりに-yaw、X軸まわりにpitch、Z軸まわりにrollの順で合成する
+        return QuaternionBuilder.fromAxisAngle(Vector3Builder.up(), -rotation.yaw)
+            .multiply(QuaternionBuilder.fromAxisAngle(Vector3Builder.left(), rotation.pitch))
+            .multiply(QuaternionBuilder.fromAxisAngle(Vector3Builder.forward(), roll));
+    }
+}
+
+function multiplyMatrices(a: Float64Array, b: Float64Array, size: number): Float64Array {
+    const result = new Float64Array(size * size);
+
+    for (let row = 0; row < size; row++) {
+        for (let column = 0; column < size; column++) {
+            let sum = 0;
+            for (let i = 0; i < size; i++) {
+                sum += a[row * size + i]! * b[i * size + column]!;
+            }
+            result[row * size + column] = sum;
+        }
+    }
+
+    return result;
+}
+
+function transposeMatrix(elements: Float64Array, size: number): Float64Array {
+    const result = new Float64Array(size * size);
+
+    for (let row = 0; row < size; row++) {
+        for (let column = 0; column < size; column++) {
+            result[column * size + row] = elements[row * size + column]!;
+        }
+    }
+
+    return result;
+}
+
+// 部分ピボット選択付きのガウス・ジョルダン法で、逆行列と行列式を同時に求める
+function eliminateMatrix(elements: Float64Array, size: number): { readonly determinant: number; readonly inverse: Float64Array | undefined } {
+    const left = Float64Array.from(elements);
+    const right = new Float64Array(size * size);
+    let determinant = 1;
+
+    for (let i = 0; i < size; i++) {
+        right[i * size + i] = 1;
+    }
+
+    for (let column = 0; column < size; column++) {
+        let pivot = column;
+        for (let row = column + 1; row < size; row++) {
+            if (Math.abs(left[row * size + column]!) > Math.abs(left[pivot * size + column]!)) {
+                pivot = row;
+            }
+        }
+
+        const pivotValue = left[pivot * size + column]!;
+
+        if (pivotValue === 0) {
+            return { determinant: 0, inverse: undefined };
+        }
+
+        if (pivot !== column) {
+            for (let i = 0; i < size; i++) {
+                [left[pivot * size + i], left[column * size + i]] = [left[column * size + i]!, left[pivot * size + i]!];
+                [right[pivot * size + i], right[column * size + i]] = [right[column * size + i]!, right[pivot * size + i]!];
+            }
+            determinant *= -1;
+        }
+
+        determinant *= pivotValue;
+
+        for (let i = 0; i < size; i++) {
+            left[column * size + i]! /= pivotValue;
+            right[column * size + i]! /= pivotValue;
+        }
+
+        for (let row = 0; row < size; row++) {
+            const factor = left[row * size + column]!;
+            if (row === column || factor === 0) continue;
+
+            for (let i = 0; i < size; i++) {
+                left[row * size + i]! -= factor * left[column * size + i]!;
+                right[row * size + i]! -= factor * right[column * size + i]!;
+            }
+        }
+    }
+
+    return { determinant, inverse: right };
+}
+
+function formatMatrix(elements: Float64Array, format: string, digits: number): string {
+    if (!sentry.number.nonNaN().int().test(digits)) {
+        throw new TypeError("桁数はNaNでない整数値である必要があります");
+    }
+    else if (digits < 0 || digits > 20) {
+        throw new RangeError("digitsに使用可能な値は0以上20以下です");
+    }
+
+    let formatted = format;
+    for (const element of elements) {
+        formatted = formatted.replace("$c", element.toFixed(digits));
+    }
+
+    return formatted.replace(/\$c/g, "");
+}
+
+function elementsOf(elements: ArrayLike<number>, size: number): Float64Array {
+    if (elements.length !== size * size) {
+        throw new RangeError("行列の成分の数は" + size * size + "である必要があります");
+    }
+
+    const nonNaNNumber = sentry.number.nonNaN();
+
+    for (let i = 0; i < elements.length; i++) {
+        if (!nonNaNNumber.test(elements[i])) {
+            throw new TypeError("行列の成分はNaNでない数値である必要があります");
+        }
+    }
+
+    return Float64Array.from(elements);
+}
+
+export class Matrix3Builder implements IVectorBuilder<Matrix3Builder> {
+    private __elements__: Float64Array;
+
+    public constructor(elements: ArrayLike<number>) {
+        this.__elements__ = elementsOf(elements, 3);
+    }
+
+    public get(row: number, column: number): number {
+        if (!(Number.isInteger(row) && Number.isInteger(column) && row >= 0 && row < 3 && column >= 0 && column < 3)) {
+            throw new RangeError("行と列は0以上3未満の整数である必要があります");
+        }
+
+        return this.__elements__[row * 3 + column]!;
+    }
+
+    public set(row: number, column: number, value: number): Matrix3Builder {
+        if (!(Number.isInteger(row) && Number.isInteger(column) && row >= 0 && row < 3 && column >= 0 && column < 3)) {
+            throw new RangeError("行と列は0以上3未満の整数である必要があります");
+        }
+        else if (!sentry.number.nonNaN().test(value)) {
+            throw new TypeError("行列の成分はNaNでない数値である必要があります");
+        }
+
+        this.__elements__[row * 3 + column] = value;
+        return this;
+    }
+
+    public equals(other: unknown): boolean {
+        if (other instanceof Matrix3Builder) {
+            return this.__elements__.every((element, index) => element === other.__elements__[index]);
+        }
+        else return false;
+    }
+
+    public operate(callbackFn: (comopnent: number) => number): Matrix3Builder;
+
+    public operate(other: Matrix3Builder, callbackFn: (comopnent1: number, comopnent2: number) => number): Matrix3Builder;
+
+    public operate(other1: Matrix3Builder, other2: Matrix3Builder, callbackFn: (comopnent1: number, comopnent2: number, component3: number) => number): Matrix3Builder;
+
+    public operate(a: Matrix3Builder | ((comopnent: number) => number), b?: Matrix3Builder | ((comopnent1: number, comopnent2: number) => number), c?: (component1: number, component2: number, component3: number) => number): Matrix3Builder {
+        let elements: number[];
+
+        if (typeof a === "function" && b === undefined && c === undefined) {
+            elements = [...this.__elements__].map(element => a(element));
+        }
+        else if (a instanceof Matrix3Builder && typeof b === "function" && c === undefined) {
+            elements = [...this.__elements__].map((element, index) => b(element, a.__elements__[index]!));
+        }
+        else if (a instanceof Matrix3Builder && b instanceof Matrix3Builder && typeof c === "function") {
+            elements = [...this.__elements__].map((element, index) => c(element, a.__elements__[index]!, b.__elements__[index]!));
+        }
+        else {
+            throw new TypeError("NEVER HAPPENS");
+        }
+
+        this.__elements__ = elementsOf(elements, 3);
+        return this;
+    }
+
+    public add(other: Matrix3Builder): Matrix3Builder {
+        return this.operate(other, (a, b) => a + b);
+    }
+
+    public subtract(other: Matrix3Builder): Matrix3Builder {
+        return this.operate(other, (a, b) => a - b);
+    }
+
+    public scale(scalar: number): Matrix3Builder {
+        if (!sentry.number.nonNaN().test(scalar)) {
+            throw new TypeError("倍率はNaNでない数値である必要があります");
+        }
+
+        return this.operate(component => component * scalar);
+    }
+
+    public divide(scalar: number): Matrix3Builder {
+        if (!sentry.number.nonNaN().test(scalar)) {
+            throw new TypeError("割る数はNaNでない数値である必要があります");
+        }
+
+        if (scalar === 0) {
+            throw new TypeError("0は割る数として無効です");
+        }
+
+        return this.operate(component => component / scalar);
+    }
+
+    public multiply(other: Matrix3Builder): Matrix3Builder {
+        this.__elements__ = multiplyMatrices(this.__elements__, other.__elements__, 3);
+        return this;
+    }
+
+    public transpose(): Matrix3Builder {
+        this.__elements__ = transposeMatrix(this.__elements__, 3);
+        return this;
+    }
+
+    public determinant(): number {
+        const m = this.__elements__;
+        return m[0]! * (m[4]! * m[8]! - m[5]! * m[7]!)
+            - m[1]! * (m[3]! * m[8]! - m[5]! * m[6]!)
+            + m[2]! * (m[3]! * m[7]! - m[4]! * m[6]!);
+    }
+
+    public inverse(): Matrix3Builder {
+        const { inverse } = eliminateMatrix(this.__elements__, 3);
+
+        if (inverse === undefined) {
+            throw new TypeError("行列式が0の行列は逆行列を持ちません");
+        }
+
+        this.__elements__ = inverse;
+        return this;
+    }
+
+    public transform(vector: Vector3): Vector3Builder {
+        const m = this.__elements__;
+        const { x, y, z } = vector;
+
+        return new Vector3Builder(
+            m[0]! * x + m[1]! * y + m[2]! * z,
+            m[3]! * x + m[4]! * y + m[5]! * z,
+            m[6]! * x + m[7]! * y + m[8]! * z
+        );
+    }
+
+    public transformAll<T extends Float32Array | Float64Array>(points: T, output: T = points): T {
+        if (points.length % 3 !== 0) {
+            throw new RangeError("座標の配列の長さは3の倍数である必要があります");
+        }
+        else if (output.length < points.length) {
+            throw new RangeError("出力先の配列の長さが足りません");
+        }
+
+        const m = this.__elements__;
+
+        for (let i = 0; i < points.length; i += 3) {
+            const x = points[i]!;
+            const y = points[i + 1]!;
+            const z = points[i + 2]!;
+
+            output[i] = m[0]! * x + m[1]! * y + m[2]! * z;
+            output[i + 1] = m[3]! * x + m[4]! * y + m[5]! * z;
+            output[i + 2] = m[6]! * x + m[7]! * y + m[8]! * z;
+        }
+
+        return output;
+    }
+
+    public clamp(min: Matrix3Builder, max: Matrix3Builder): Matrix3Builder {
+        return this.operate(min, max, (val, min, max) => {
+            return Math.max(min, Math.min(val, max));
+        });
+    }
+
+    public clone(): Matrix3Builder {
+        return new Matrix3Builder(this.__elements__);
+    }
+
+    public format(format: string, digits: number): string {
+        return formatMatrix(this.__elements__, format, digits);
+    }
+
+    public toString(): string {
+        return this.format("(($c, $c, $c), ($c, $c, $c), ($c, $c, $c))", 3);
+    }
+
+    public toArray(): number[] {
+        return [...this.__elements__];
+    }
+
+    public isZero(): boolean {
+        return this.equals(Matrix3Builder.zero());
+    }
+
+    public static zero(): Matrix3Builder {
+        return Matrix3Builder.filled(0);
+    }
+
+    public static identity(): Matrix3Builder {
+        return new this([
+            1, 0, 0,
+            0, 1, 0,
+            0, 0, 1
+        ]);
+    }
+
+    public static filled(value: number): Matrix3Builder {
+        return new this(new Array<number>(9).fill(value));
+    }
+
+    public static fromAxes(x: Vector3, y: Vector3, z: Vector3): Matrix3Builder {
+        return new this([
+            x.x, y.x, z.x,
+            x.y, y.y, z.y,
+            x.z, y.z, z.z
+        ]);
+    }
+
+    public static fromRotation(rotation: DualAxisRotationBuilder | TripleAxisRotationBuilder): Matrix3Builder {
+        const coordsSystem = (rotation instanceof TripleAxisRotationBuilder ? rotation : TripleAxisRotationBuilder.from(rotation)).getObjectCoordsSystem();
+        return this.fromAxes(coordsSystem.getX(), coordsSystem.getY(), coordsSystem.getZ());
+    }
+
+    public static fromQuaternion(quaternion: QuaternionBuilder): Matrix3Builder {
+        return this.fromAxes(
+            quaternion.apply(Vector3Builder.left()),
+            quaternion.apply(Vector3Builder.up()),
+            quaternion.apply(Vector3Builder.forward())
+        );
+    }
+
+    public static fromAxisAngle(axis: Vector3, angle: number): Matrix3Builder {
+        return this.fromQuaternion(QuaternionBuilder.fromAxisAngle(axis, angle));
+    }
+
+    public static fromScale(scale: Vector3): Matrix3Builder {
+        return new this([
+            scale.x, 0, 0,
+            0, scale.y, 0,
+            0, 0, scale.z
+        ]);
+    }
+}
+
+export class Matrix4Builder implements IVectorBuilder<Matrix4Builder> {
+    private __elements__: Float64Array;
+
+    public constructor(elements: ArrayLike<number>) {
+        this.__elements__ = elementsOf(elements, 4);
+    }
+
+    public get(row: number, column: number): number {
+        if (!(Number.isInteger(row) && Number.isInteger(column) && row >= 0 && row < 4 && column >= 0 && column < 4)) {
+            throw new RangeError("行と列は0以上4未満の整数である必要があります");
+        }
+
+        return this.__elements__[row * 4 + column]!;
+    }
+
+    public set(row: number, column: number, value: number): Matrix4Builder {
+        if (!(Number.isInteger(row) && Number.isInteger(column) && row >= 0 && row < 4 && column >= 0 && column < 4)) {
+            throw new RangeError("行と列は0以上4未満の整数である必要があります");
+        }
+        else if (!sentry.number.nonNaN().test(value)) {
+            throw new TypeError("行列の成分はNaNでない数値である必要があります");
+        }
+
+        this.__elements__[row * 4 + column] = value;
+        return this;
+    }
+
+    public equals(other: unknown): boolean {
+        if (other instanceof Matrix4Builder) {
+            return this.__elements__.every((element, index) => element === other.__elements__[index]);
+        }
+        else return false;
+    }
+
+    public operate(callbackFn: (comopnent: number) => number): Matrix4Builder;
+
+    public operate(other: Matrix4Builder, callbackFn: (comopnent1: number, comopnent2: number) => number): Matrix4Builder;
+
+    public operate(other1: Matrix4Builder, other2: Matrix4Builder, callbackFn: (comopnent1: number, comopnent2: number, component3: number) => number): Matrix4Builder;
+
+    public operate(a: Matrix4Builder | ((comopnent: number) => number), b?: Matrix4Builder | ((comopnent1: number, comopnent2: number) => number), c?: (component1: number, component2: number, component3: number) => number): Matrix4Builder {
+        let elements: number[];
+
+        if (typeof a === "function" && b === undefined && c === undefined) {
+            elements = [...this.__elements__].map(element => a(element));
+        }
+        else if (a instanceof Matrix4Builder && typeof b === "function" && c === undefined) {
+            elements = [...this.__elements__].map((element, index) => b(element, a.__elements__[index]!));
+        }
+        else if (a instanceof Matrix4Builder && b instanceof Matrix4Builder && typeof c === "function") {
+            elements = [...this.__elements__].map((element, index) => c(element, a.__elements__[index]!, b.__elements__[index]!));
+        }
+        else {
+            throw new TypeError("NEVER HAPPENS");
+        }
+
+        this.__elements__ = elementsOf(elements, 4);
+        return this;
+    }
+
+    public add(other: Matrix4Builder): Matrix4Builder {
+        return this.operate(other, (a, b) => a + b);
+    }
+
+    public subtract(other: Matrix4Builder): Matrix4Builder {
+        return this.operate(other, (a, b) => a - b);
+    }
+
+    public scale(scalar: number): Matrix4Builder {
+        if (!sentry.number.nonNaN().test(scalar)) {
+            throw new TypeError("倍率はNaNでない数値である必要があります");
+        }
+
+        return this.operate(component => component * scalar);
+    }
+
+    public divide(scalar: number): Matrix4Builder {
+        if (!sentry.number.nonNaN().test(scalar)) {
+            throw new TypeError("割る数はNaNでない数値である必要があります");
+        }
+
+        if (scalar === 0) {
+            throw new TypeError("0は割る数として無効です");
+        }
+
+        return this.operate(component => component / scalar);
+    }
+
+    public multiply(other: Matrix4Builder): Matrix4Builder {
+        this.__elements__ = multiplyMatrices(this.__elements__, other.__elements__, 4);
+        return this;
+    }
+
+    public transpose(): Matrix4Builder {
+        this.__elements__ = transposeMatrix(this.__elements__, 4);
+        return this;
+    }
+
+    public determinant(): number {
+        return eliminateMatrix(this.__elements__, 4).determinant;
+    }
+
+    public inverse(): Matrix4Builder {
+        const { inverse } = eliminateMatrix(this.__elements__, 4);
+
+        if (inverse === undefined) {
+            throw new TypeError("行列式が0の行列は逆行列を持ちません");
+        }
+
+        this.__elements__ = inverse;
+        return this;
+    }
+
+    public transform(point: Vector3): Vector3Builder {
+        const m = this.__elements__;
+        const { x, y, z } = point;
+        const w = m[12]! * x + m[13]! * y + m[14]! * z + m[15]!;
+
+        if (w === 0) {
+            throw new TypeError("変換後の同次座標のwが0になりました");
+        }
+
+        return new Vector3Builder(
+            (m[0]! * x + m[1]! * y + m[2]! * z + m[3]!) / w,
+            (m[4]! * x + m[5]! * y + m[6]! * z + m[7]!) / w,
+            (m[8]! * x + m[9]! * y + m[10]! * z + m[11]!) / w
+        );
+    }
+
+    public transformDirection(direction: Vector3): Vector3Builder {
+        const m = this.__elements__;
+        const { x, y, z } = direction;
+
+        return new Vector3Builder(
+            m[0]! * x + m[1]! * y + m[2]! * z,
+            m[4]! * x + m[5]! * y + m[6]! * z,
+            m[8]! * x + m[9]! * y + m[10]! * z
+        );
+    }
+
+    public transformAll<T extends Float32Array | Float64Array>(points: T, output: T = points): T {
+        if (points.length % 3 !== 0) {
+            throw new RangeError("座標の配列の長さは3の倍数である必要があります");
+        }
+        else if (output.length < points.length) {
+            throw new RangeError("出力先の配列の長さが足りません");
+        }
+
+        const m = this.__elements__;
+
+        // アフィン変換であれば同次座標のwは常に1なので除算を省く
+        const affine = m[12] === 0 && m[13] === 0 && m[14] === 0 && m[15] === 1;
+
+        for (let i = 0; i < points.length; i += 3) {
+            const x = points[i]!;
+            const y = points[i + 1]!;
+            const z = points[i + 2]!;
+
+            if (affine) {
+                output[i] = m[0]! * x + m[1]! * y + m[2]! * z + m[3]!;
+                output[i + 1] = m[4]! * x + m[5]! * y + m[6]! * z + m[7]!;
+                output[i + 2] = m[8]! * x + m[9]! * y + m[10]! * z + m[11]!;
+            }
+            else {
+                const w = m[12]! * x + m[13]! * y + m[14]! * z + m[15]!;
+                output[i] = (m[0]! * x + m[1]! * y + m[2]! * z + m[3]!) / w;
+                output[i + 1] = (m[4]! * x + m[5]! * y + m[6]! * z + m[7]!) / w;
+                output[i + 2] = (m[8]! * x + m[9]! * y + m[10]! * z + m[11]!) / w;
+            }
+        }
+
+        return output;
+    }
+
+    public getTranslation(): Vector3Builder {
+        return new Vector3Builder(this.__elements__[3]!, this.__elements__[7]!, this.__elements__[11]!);
+    }
+
+    public getMatrix3(): Matrix3Builder {
+        const m = this.__elements__;
+
+        return new Matrix3Builder([
+            m[0]!, m[1]!, m[2]!,
+            m[4]!, m[5]!, m[6]!,
+            m[8]!, m[9]!, m[10]!
+        ]);
+    }
+
+    public clamp(min: Matrix4Builder, max: Matrix4Builder): Matrix4Builder {
+        return this.operate(min, max, (val, min, max) => {
+            return Math.max(min, Math.min(val, max));
+        });
+    }
+
+    public clone(): Matrix4Builder {
+        return new Matrix4Builder(this.__elements__);
+    }
+
+    public format(format: string, digits: number): string {
+        return formatMatrix(this.__elements__, format, digits);
+    }
+
+    public toString(): string {
+        return this.format("(($c, $c, $c, $c), ($c, $c, $c, $c), ($c, $c, $c, $c), ($c, $c, $c, $c))", 3);
+    }
+
+    public toArray(): number[] {
+        return [...this.__elements__];
+    }
+
+    public isZero(): boolean {
+        return this.equals(Matrix4Builder.zero());
+    }
+
+    public static zero(): Matrix4Builder {
+        return Matrix4Builder.filled(0);
+    }
+
+    public static identity(): Matrix4Builder {
+        return new this([
+            1, 0, 0, 0,
+            0, 1, 0, 0,
+            0, 0, 1, 0,
+            0, 0, 0, 1
+        ]);
+    }
+
+    public static filled(value: number): Matrix4Builder {
+        return new this(new Array<number>(16).fill(value));
+    }
+
+    public static fromMatrix3(matrix: Matrix3Builder, translation: Vector3 = Vector3Builder.zero()): Matrix4Builder {
+        const m = matrix.toArray();
+
+        return new this([
+            m[0]!, m[1]!, m[2]!, translation.x,
+            m[3]!, m[4]!, m[5]!, translation.y,
+            m[6]!, m[7]!, m[8]!, translation.z,
+            0, 0, 0, 1
+        ]);
+    }
+
+    public static fromAxes(x: Vector3, y: Vector3, z: Vector3, origin: Vector3 = Vector3Builder.zero()): Matrix4Builder {
+        return this.fromMatrix3(Matrix3Builder.fromAxes(x, y, z), origin);
+    }
+
+    public static fromRotation(rotation: DualAxisRotationBuilder | TripleAxisRotationBuilder): Matrix4Builder {
+        return this.fromMatrix3(Matrix3Builder.fromRotation(rotation));
+    }
+
+    public static fromQuaternion(quaternion: QuaternionBuilder): Matrix4Builder {
+        return this.fromMatrix3(Matrix3Builder.fromQuaternion(quaternion));
+    }
+
+    public static fromAxisAngle(axis: Vector3, angle: number): Matrix4Builder {
+        return this.fromMatrix3(Matrix3Builder.fromAxisAngle(axis, angle));
+    }
+
+    public static fromTranslation(translation: Vector3): Matrix4Builder {
+        return this.fromMatrix3(Matrix3Builder.identity(), translation);
+    }
+
+    public static fromScale(scale: Vector3): Matrix4Builder {
+        return this.fromMatrix3(Matrix3Builder.fromScale(scale));
+    }
+}
+
+export type AxisOrder = "xyz" | "xzy" | "yxz" | "yzx" | "zxy" | "zyx";
+
+export class AABB {
+    private readonly __min__: Vector3Builder;
+    private readonly __max__: Vector3Builder;
+
+    public constructor(a: Vector3, b: Vector3) {
+        this.__min__ = Vector3Builder.min(a, b);
+        this.__max__ = Vector3Builder.max(a, b);
+    }
+
+    public get min(): Vector3Builder {
+        return this.__min__.clone();
+    }
+
+    public get max(): Vector3Builder {
+        return this.__max__.clone();
+    }
+
+    public equals(other: unknown): boolean {
+        if (other instanceof AABB) {
+            return this.__min__.equals(other.__min__)
+                && this.__max__.equals(other.__max__);
+        }
+        else return false;
+    }
+
+    public contains(point: Vector3): boolean;
+
+    public contains(other: AABB): boolean;
+
+    public contains(value: Vector3 | AABB): boolean {
+        if (value instanceof AABB) {
+            return this.contains(value.__min__) && this.contains(value.__max__);
+        }
+        else {
+            return this.__min__.x <= value.x && value.x <= this.__max__.x
+                && this.__min__.y <= value.y && value.y <= this.__max__.y
+                && this.__min__.z <= value.z && value.z <= this.__max__.z;
+        }
+    }
+
+    public intersects(other: AABB): boolean {
+        // 面や辺が接しているだけの場合は交差とみなさない
+        return this.__min__.x < other.__max__.x && other.__min__.x < this.__max__.x
+            && this.__min__.y < other.__max__.y && other.__min__.y < this.__max__.y
+            && this.__min__.z < other.__max__.z && other.__min__.z < this.__max__.z;
+    }
+
+    public union(other: AABB): AABB {
+        return new AABB(
+            Vector3Builder.min(this.__min__, other.__min__),
+            Vector3Builder.max(this.__max__, other.__max__)
+        );
+    }
+
+    public intersection(other: AABB): AABB | undefined {
+        if (!this.intersects(other)) {
+            return undefined;
+        }
+
+        return new AABB(
+            Vector3Builder.max(this.__min__, other.__min__),
+            Vector3Builder.min(this.__max__, other.__max__)
+        );
+    }
+
+    public expand(amount: number | Vector3): AABB {
+        const vector = (typeof amount === "number") ? Vector3Builder.filled(amount) : Vector3Builder.from(amount);
+        const min = this.__min__.clone().subtract(vector);
+        const max = this.__max__.clone().add(vector);
+
+        if (min.x > max.x || min.y > max.y || min.z > max.z) {
+            throw new RangeError("縮小量がボックスの大きさを超えています");
+        }
+
+        return new AABB(min, max);
+    }
+
+    public offset(vector: Vector3): AABB {
+        return new AABB(this.__min__.clone().add(vector), this.__max__.clone().add(vector));
+    }
+
+    public getCenter(): Vector3Builder {
+        return this.__min__.lerp(this.__max__, 0.5);
+    }
+
+    public getSize(): Vector3Builder {
+        return this.__max__.clone().subtract(this.__min__);
+    }
+
+    public getVolume(): number {
+        const size = this.getSize();
+        return size.x * size.y * size.z;
+    }
+
+    public getCorners(): Vector3Builder[] {
+        const corners: Vector3Builder[] = [];
+
+        for (const x of [this.__min__.x, this.__max__.x]) {
+            for (const y of [this.__min__.y, this.__max__.y]) {
+                for (const z of [this.__min__.z, this.__max__.z]) {
+                    corners.push(new Vector3Builder(x, y, z));
+                }
+            }
+        }
+
+        return corners;
+    }
+
+    public intersectRay(origin: Vector3, direction: Vector3, maxDistance: number = Infinity): number | undefined {
+        return new Ray(origin, direction).intersectAABB(this, maxDistance)?.distance;
+    }
+
+    public *getBlocks(order: AxisOrder = "xyz"): IterableIterator<Vector3Builder> {
+        const [from, to] = this.getBlockRange();
+        const [outer, middle, inner] = order.split("") as ["x" | "y" | "z", "x" | "y" | "z", "x" | "y" | "z"];
+
+        for (let i = from[outer]; i <= to[outer]; i++) {
+            for (let j = from[middle]; j <= to[middle]; j++) {
+                for (let k = from[inner]; k <= to[inner]; k++) {
+                    const block = Vector3Builder.zero();
+                    block[outer] = i;
+                    block[middle] = j;
+                    block[inner] = k;
+                    yield block;
+                }
+            }
+        }
+    }
+
+    public getBlockCount(): number {
+        const [from, to] = this.getBlockRange();
+        const size = to.subtract(from).operate(component => component + 1);
+
+        return size.x * size.y * size.z;
+    }
+
+    private getBlockRange(): [Vector3Builder, Vector3Builder] {
+        // ボックスと体積を共有するブロックの範囲 (大きさが0の軸では、その座標を含むブロック)
+        return [
+            this.__min__.clone().operate(Math.floor),
+            this.__max__.clone().operate(this.__min__, (max, min) => (max === min) ? Math.floor(max) : Math.ceil(max) - 1)
+        ];
+    }
+
+    public toString(): string {
+        return "AABB" + this.__min__.toString() + " -> " + this.__max__.toString();
+    }
+
+    public static fromCenter(center: Vector3, size: Vector3): AABB {
+        const half = Vector3Builder.from(size).clone().scale(0.5);
+        return new this(Vector3Builder.from(center).clone().subtract(half), Vector3Builder.from(center).clone().add(half));
+    }
+
+    public static fromBlocks(a: Vector3, b: Vector3): AABB {
+        // 両端のブロックを含むように、大きい側の角を1ブロック分広げる
+        return new this(
+            Vector3Builder.min(a, b).operate(Math.floor),
+            Vector3Builder.max(a, b).operate(Math.floor).add(Vector3Builder.filled(1))
+        );
+    }
+}
+
+export interface RayHit {
+    readonly distance: number;
+
+    readonly point: Vector3Builder;
+
+    readonly normal: Vector3Builder;
+}
+
+export interface RayBlockStep {
+    readonly block: Vector3Builder;
+
+    readonly distance: number;
+
+    readonly normal: Vector3Builder;
+}
+
+export class Ray {
+    private readonly __origin__: Vector3Builder;
+    private readonly __direction__: Vector3Builder;
+
+    public constructor(origin: Vector3, direction: Vector3) {
+        this.__origin__ = Vector3Builder.from(origin).clone();
+        this.__direction__ = Vector3Builder.from(direction).clone().normalize();
+
+        if (this.__direction__.isZero()) {
+            throw new TypeError("レイの向きは零ベクトルであってはなりません");
+        }
+    }
+
+    public get origin(): Vector3Builder {
+        return this.__origin__.clone();
+    }
+
+    public get direction(): Vector3Builder {
+        return this.__direction__.clone();
+    }
+
+    public getPoint(distance: number): Vector3Builder {
+        return this.__origin__.clone().add(this.__direction__.clone().scale(distance));
+    }
+
+    // 始点が内側にあるときは距離0、法線は零ベクトルとする
+    public intersectAABB(box: AABB, maxDistance: number = Infinity): RayHit | undefined {
+        const min = box.min;
+        const max = box.max;
+        let near = 0;
+        let far = maxDistance;
+        let hitAxis: "x" | "y" | "z" | undefined;
+
+        for (const axis of ["x", "y", "z"] as const) {
+            const origin = this.__origin__[axis];
+            const direction = this.__direction__[axis];
+
+            if (direction === 0) {
+                if (origin < min[axis] || origin > max[axis]) {
+                    return undefined;
+                }
+                continue;
+            }
+
+            const t1 = (min[axis] - origin) / direction;
+            const t2 = (max[axis] - origin) / direction;
+            const entry = Math.min(t1, t2);
+
+            if (entry > near) {
+                near = entry;
+                hitAxis = axis;
+            }
+
+            far = Math.min(far, Math.max(t1, t2));
+
+            if (near > far) {
+                return undefined;
+            }
+        }
+
+        const normal = Vector3Builder.zero();
+
+        if (hitAxis !== undefined) {
+            normal[hitAxis] = -Math.sign(this.__direction__[hitAxis]);
+        }
+
+        return { distance: near, point: this.getPoint(near), normal };
+    }
+
+    // 始点が内側にあるときは距離0、法線は零ベクトルとする
+    public intersectSphere(center: Vector3, radius: number, maxDistance: number = Infinity): RayHit | undefined {
+        if (!(sentry.number.nonNaN().test(radius) && radius >= 0)) {
+            throw new RangeError("半径は0以上の数値である必要があります");
+        }
+
+        const offset = this.__origin__.clone().subtract(center);
+        const c = offset.dot(offset) - radius * radius;
+
+        if (c <= 0) {
+            return { distance: 0, point: this.origin, normal: Vector3Builder.zero() };
+        }
+
+        const b = offset.dot(this.__direction__);
+        const discriminant = b * b - c;
+
+        if (b > 0 || discriminant < 0) {
+            return undefined;
+        }
+
+        const distance = -b - Math.sqrt(discriminant);
+
+        if (distance > maxDistance) {
+            return undefined;
+        }
+
+        const point = this.getPoint(distance);
+
+        return { distance, point, normal: point.clone().subtract(center).normalize() };
+    }
+
+    // 法線はレイに向かい合う側を返す
+    public intersectPlane(point: Vector3, normal: Vector3, maxDistance: number = Infinity): RayHit | undefined {
+        const normalized = Vector3Builder.from(normal).clone().normalize();
+
+        if (normalized.isZero()) {
+            throw new TypeError("平面の法線は零ベクトルであってはなりません");
+        }
+
+        const denominator = normalized.dot(this.__direction__);
+
+        if (denominator === 0) {
+            return undefined;
+        }
+
+        const distance = Vector3Builder.from(point).clone().subtract(this.__origin__).dot(normalized) / denominator;
+
+        if (distance < 0 || distance > maxDistance) {
+            return undefined;
+        }
+
+        return {
+            distance,
+            point: this.getPoint(distance),
+            normal: (denominator > 0) ? normalized.invert() : normalized
+        };
+    }
+
+    // Amanatides & Wooのボクセル走査: 始点のブロックから順に、レイが通過するブロックとそこに入った面を返す
+    public *traverseBlocks(maxDistance: number): IterableIterator<RayBlockStep> {
+        if (!(sentry.number.nonNaN().test(maxDistance) && maxDistance >= 0)) {
+            throw new RangeError("最大距離は0以上の数値である必要があります");
+        }
+
+        const axes = ["x", "y", "z"] as const;
+        const block = this.__origin__.clone().operate(Math.floor);
+        const step = this.__direction__.clone().operate(Math.sign);
+        const next = Vector3Builder.zero();
+        const delta = Vector3Builder.zero();
+
+        for (const axis of axes) {
+            const direction = this.__direction__[axis];
+
+            if (direction === 0) {
+                next[axis] = Infinity;
+                delta[axis] = Infinity;
+            }
+            else {
+                const boundary = (direction > 0) ? block[axis] + 1 : block[axis];
+                next[axis] = (boundary - this.__origin__[axis]) / direction;
+                delta[axis] = Math.abs(1 / direction);
+            }
+        }
+
+        yield { block: block.clone(), distance: 0, normal: Vector3Builder.zero() };
+
+        while (true) {
+            const axis = axes.reduce((a, b) => (next[b] < next[a]) ? b : a);
+            const distance = next[axis];
+
+            if (distance > maxDistance) break;
+
+            block[axis] += step[axis];
+            next[axis] += delta[axis];
+
+            const normal = Vector3Builder.zero();
+            normal[axis] = -step[axis];
+
+            yield { block: block.clone(), distance, normal };
+        }
+    }
+
+    public toString(): string {
+        return "Ray" + this.__origin__.toString() + " -> " + this.__direction__.format("($x, $y, $z)", 3);
+    }
+
+    public static fromRotation(origin: Vector3, rotation: DualAxisRotationBuilder | TripleAxisRotationBuilder): Ray {
+        return new this(origin, rotation.getDirection3d());
+    }
+}
+
+export interface CurveSample {
+    readonly point: Vector3Builder;
+
+    readonly tangent: DualAxisRotationBuilder;
+
+    readonly distance: number;
+}
+
+export abstract class Curve {
+    private __lengths__: Float64Array | undefined = undefined;
+
+    private static readonly ARC_LENGTH_RESOLUTION: number = 512;
+
+    public abstract getPoint(t: number): Vector3Builder;
+
+    public abstract getDerivative(t: number): Vector3Builder;
+
+    public getTangent(t: number): DualAxisRotationBuilder {
+        return this.getDerivative(t).getRotation2f();
+    }
+
+    public getLength(): number {
+        const lengths = this.getLengths();
+        return lengths[lengths.length - 1]!;
+    }
+
+    public getParameterAt(distance: number): number {
+        if (!sentry.number.nonNaN().test(distance)) {
+            throw new TypeError("距離はNaNでない数値である必要があります");
+        }
+
+        const lengths = this.getLengths();
+        const length = lengths[lengths.length - 1]!;
+
+        if (distance <= 0 || length === 0) return 0;
+        else if (distance >= length) return 1;
+
+        let low = 0;
+        let high = lengths.length - 1;
+
+        while (high - low > 1) {
+            const middle = (low + high) >> 1;
+
+            if (lengths[middle]! < distance) low = middle;
+            else high = middle;
+        }
+
+        const segment = lengths[high]! - lengths[low]!;
+        const ratio = (segment === 0) ? 0 : (distance - lengths[low]!) / segment;
+
+        return (low + ratio) / (lengths.length - 1);
+    }
+
+    public getPointAt(distance: number): Vector3Builder {
+        return this.getPoint(this.getParameterAt(distance));
+    }
+
+    public getTangentAt(distance: number): DualAxisRotationBuilder {
+        return this.getTangent(this.getParameterAt(distance));
+    }
+
+    public sample(count: number): Vector3Builder[] {
+        return this.sampleWithTangents(count).map(({ point }) => point);
+    }
+
+    public sampleWithTangents(count: number): CurveSample[] {
+        if (!(sentry.number.int().test(count) && count >= 2)) {
+            throw new RangeError("サンプル数は2以上の整数である必要があります");
+        }
+
+        const length = this.getLength();
+        const samples: CurveSample[] = [];
+
+        for (let i = 0; i < count; i++) {
+            samples.push(this.getSampleAt(length * i / (count - 1)));
+        }
+
+        return samples;
+    }
+
+    public sampleByDistance(interval: number): CurveSample[] {
+        if (!(sentry.number.nonNaN().test(interval) && interval > 0)) {
+            throw new RangeError("間隔は0より大きい数値である必要があります");
+        }
+
+        const length = this.getLength();
+        const samples: CurveSample[] = [];
+
+        for (let distance = 0; distance <= length; distance += interval) {
+            samples.push(this.getSampleAt(distance));
+        }
+
+        return samples;
+    }
+
+    protected static validateParameter(t: number): void {
+        if (!(sentry.number.nonNaN().test(t) && t >= 0 && t <= 1)) {
+            throw new RangeError("パラメータは0以上1以下の数値である必要があります");
+        }
+    }
+
+    private getSampleAt(distance: number): CurveSample {
+        const t = this.getParameterAt(distance);
+        return { point: this.getPoint(t), tangent: this.getTangent(t), distance };
+    }
+
+    // 弧長による再パラメータ化のため、等間隔のパラメータごとの累積の長さを一度だけ計算しておく
+    private getLengths(): Float64Array {
+        if (this.__lengths__ !== undefined) {
+            return this.__lengths__;
+        }
+
+        const resolution = Curve.ARC_LENGTH_RESOLUTION;
+        const lengths = new Float64Array(resolution + 1);
+        let previous = this.getPoint(0);
+
+        for (let i = 1; i <= resolution; i++) {
+            const current = this.getPoint(i / resolution);
+            lengths[i] = lengths[i - 1]! + previous.getDistanceTo(current);
+            previous = current;
+        }
+
+        this.__lengths__ = lengths;
+        return lengths;
+    }
+}
+
+export class BezierCurve extends Curve {
+    private readonly __points__: Vector3Builder[];
+
+    public constructor(points: readonly Vector3[]) {
+        super();
+
+        if (points.length < 2) {
+            throw new RangeError("ベジェ曲線には2つ以上の制御点が必要です");
+        }
+
+        this.__points__ = points.map(point => Vector3Builder.from(point).clone());
+    }
+
+    public get points(): Vector3Builder[] {
+        return this.__points__.map(point => point.clone());
+    }
+
+    public getPoint(t: number): Vector3Builder {
+        Curve.validateParameter(t);
+        return BezierCurve.deCasteljau(this.__points__, t);
+    }
+
+    public getDerivative(t: number): Vector3Builder {
+        Curve.validateParameter(t);
+
+        const degree = this.__points__.length - 1;
+        const differences = this.__points__.slice(1).map((point, index) => point.clone().subtract(this.__points__[index]!));
+
+        return BezierCurve.deCasteljau(differences, t).scale(degree);
+    }
+
+    public static quadratic(start: Vector3, control: Vector3, end: Vector3): BezierCurve {
+        return new this([start, control, end]);
+    }
+
+    public static cubic(start: Vector3, control1: Vector3, control2: Vector3, end: Vector3): BezierCurve {
+        return new this([start, control1, control2, end]);
+    }
+
+    private static deCasteljau(points: readonly Vector3Builder[], t: number): Vector3Builder {
+        const working = points.map(point => point.clone());
+
+        for (let n = working.length - 1; n > 0; n--) {
+            for (let i = 0; i < n; i++) {
+                working[i] = working[i]!.lerp(working[i + 1]!, t);
+            }
+        }
+
+        return working[0]!;
+    }
+}
+
+export class CatmullRomCurve extends Curve {
+    private readonly __points__: Vector3Builder[];
+
+    public constructor(points: readonly Vector3[]) {
+        super();
+
+        if (points.length < 2) {
+            throw new RangeError("Catmull-Romスプラインには2つ以上の制御点が必要です");
+        }
+
+        this.__points__ = points.map(point => Vector3Builder.from(point).clone());
+    }
+
+    public get points(): Vector3Builder[] {
+        return this.__points__.map(point => point.clone());
+    }
+
+    public getPoint(t: number): Vector3Builder {
+        Curve.validateParameter(t);
+
+        const [p0, p1, p2, p3, u] = this.getSegment(t);
+
+        return p1.clone().scale(2)
+            .add(p2.clone().subtract(p0).scale(u))
+            .add(p0.clone().scale(2).subtract(p1.clone().scale(5)).add(p2.clone().scale(4)).subtract(p3).scale(u * u))
+            .add(p1.clone().subtract(p2).scale(3).subtract(p0).add(p3).scale(u * u * u))
+            .scale(0.5);
+    }
+
+    public getDerivative(t: number): Vector3Builder {
+        Curve.validateParameter(t);
+
+        const [p0, p1, p2, p3, u] = this.getSegment(t);
+
+        return p2.clone().subtract(p0)
+            .add(p0.clone().scale(2).subtract(p1.clone().scale(5)).add(p2.clone().scale(4)).subtract(p3).scale(2 * u))
+            .add(p1.clone().subtract(p2).scale(3).subtract(p0).add(p3).scale(3 * u * u))
+            .scale(0.5 * (this.__points__.length - 1));
+    }
+
+    // 両端の外側には、端点について隣の点を反転した仮想の制御点を置く
+    private getSegment(t: number): [Vector3Builder, Vector3Builder, Vector3Builder, Vector3Builder, number] {
+        const points = this.__points__;
+        const segmentCount = points.length - 1;
+        const index = Math.min(Math.floor(t * segmentCount), segmentCount - 1);
+
+        const p1 = points[index]!;
+        const p2 = points[index + 1]!;
+        const p0 = points[index - 1] ?? p1.clone().scale(2).subtract(p2);
+        const p3 = points[index + 2] ?? p2.clone().scale(2).subtract(p1);
+
+        return [p0, p1, p2, p3, t * segmentCount - index];
+    }
+}
+
+export class BSplineCurve extends Curve {
+    private readonly __points__: Vector3Builder[];
+    private readonly __degree__: number;
+    private readonly __knots__: number[];
+
+    public constructor(points: readonly Vector3[], degree: number = 3) {
+        super();
+
+        if (!(sentry.number.int().test(degree) && degree >= 1)) {
+            throw new RangeError("次数は1以上の整数である必要があります");
+        }
+        else if (points.length <= degree) {
+            throw new RangeError("Bスプラインには次数より多くの制御点が必要です");
+        }
+
+        this.__points__ = points.map(point => Vector3Builder.from(point).clone());
+        this.__degree__ = degree;
+
+        // 両端の制御点を通るように、端のノットを次数+1個重ねた一様ノット列
+        const spanCount = points.length - degree;
+        this.__knots__ = [
+            ...new Array<number>(degree).fill(0),
+            ...Array.from({ length: spanCount + 1 }, (_, i) => i / spanCount),
+            ...new Array<number>(degree).fill(1)
+        ];
+    }
+
+    public get points(): Vector3Builder[] {
+        return this.__points__.map(point => point.clone());
+    }
+
+    public get degree(): number {
+        return this.__degree__;
+    }
+
+    public getPoint(t: number): Vector3Builder {
+        Curve.validateParameter(t);
+        return BSplineCurve.deBoor(this.__points__, this.__knots__, this.__degree__, t);
+    }
+
+    public getDerivative(t: number): Vector3Builder {
+        Curve.validateParameter(t);
+
+        const degree = this.__degree__;
+        const knots = this.__knots__;
+        const points = this.__points__.slice(1).map((point, index) => {
+            return point.clone()
+                .subtract(this.__points__[index]!)
+                .scale(degree / (knots[index + degree + 1]! - knots[index + 1]!));
+        });
+
+        return BSplineCurve.deBoor(points, knots.slice(1, -1), degree - 1, t);
+    }
+
+    private static spanOf(knots: readonly number[], degree: number, pointCount: number, t: number): number {
+        if (t >= 1) return pointCount - 1;
+
+        let span = degree;
+        while (knots[span + 1]! <= t) span++;
+
+        return span;
+    }
+
+    private static deBoor(points: readonly Vector3Builder[], knots: readonly number[], degree: number, t: number): Vector3Builder {
+        const span = BSplineCurve.spanOf(knots, degree, points.length, t);
+        const working = points.slice(span - degree, span + 1).map(point => point.clone());
+
+        for (let r = 1; r <= degree; r++) {
+            for (let j = degree; j >= r; j--) {
+                const left = knots[j + span - degree]!;
+                const right = knots[j + 1 + span - r]!;
+                const alpha = (t - left) / (right - left);
+
+                working[j] = working[j - 1]!.lerp(working[j]!, alpha);
+            }
+        }
+
+        return working[degree]!;
+    }
+}
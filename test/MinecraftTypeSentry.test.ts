@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { MinecraftBlockTypes } from "@minecraft/vanilla-data";
+import { mcsentry } from "../src/libs/MinecraftTypeSentry";
+import { IntRange } from "../src/utils/NumberRange";
+
+describe("identifier", () => {
+    test("名前空間と名前を持つ識別子を受け入れる", () => {
+        const identifier = mcsentry.identifier.parse("minecraft:stone");
+
+        expect(identifier.namespace).toBe("minecraft");
+        expect(identifier.value).toBe("stone");
+        expect(mcsentry.identifier.test("foo:textures/blocks/bar_1.png")).toBe(true);
+    });
+
+    test("空の名前空間や名前、大文字、前後の空白を拒否する", () => {
+        for (const string of ["minecraft:", ":stone", "stone", "Minecraft:Stone", "minecraft:stone ", " minecraft:stone", "a:b:c"]) {
+            expect([string, mcsentry.identifier.test(string)]).toEqual([string, false]);
+        }
+    });
+});
+
+describe("intRange", () => {
+    test("解釈した範囲を返し、解釈できない文字列を拒否する", () => {
+        expect(mcsentry.intRange.parse("1..5")).toEqual(IntRange.minMax(1, 5));
+        expect(mcsentry.intRange.test("1..a")).toBe(false);
+    });
+});
+
+describe("blockTypeId", () => {
+    test("列挙型に含まれるIDのみを受け入れる", () => {
+        expect(mcsentry.blockTypeId.parse("minecraft:stone")).toBe(MinecraftBlockTypes.Stone);
+        expect(mcsentry.blockTypeId.test("minecraft:not_a_block")).toBe(false);
+    });
+});
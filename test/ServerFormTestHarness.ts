@@ -0,0 +1,534 @@
+import type { Player, RawMessage } from "@minecraft/server";
+
+/**
+ * 偽のフォームに描画された要素
+ */
+export type ServerFormTestElement =
+    | { readonly type: "button"; readonly name: string | RawMessage; readonly iconPath: string | undefined }
+    | { readonly type: "label" | "header"; readonly text: string | RawMessage }
+    | { readonly type: "divider" }
+    | { readonly type: "toggle"; readonly label: string | RawMessage; readonly defaultValue: boolean }
+    | { readonly type: "slider"; readonly label: string | RawMessage; readonly min: number; readonly max: number; readonly step: number; readonly defaultValue: number }
+    | { readonly type: "dropdown"; readonly label: string | RawMessage; readonly options: readonly (string | RawMessage)[]; readonly defaultValueIndex: number }
+    | { readonly type: "textField"; readonly label: string | RawMessage; readonly placeHolder: string | RawMessage; readonly defaultValue: string };
+
+/**
+ * 偽のフォームが返す応答 (`@minecraft/server-ui`の`FormResponse`と同じ形)
+ */
+export interface ServerFormTestResponse {
+    readonly canceled: boolean;
+
+    readonly cancelationReason?: "UserBusy" | "UserClosed";
+
+    readonly selection?: number;
+
+    readonly formValues?: readonly (boolean | number | string | undefined)[];
+}
+
+/**
+ * 偽のフォームが表示された記録
+ */
+export interface ServerFormTestRecord {
+    /**
+     * フォームの種類
+     */
+    readonly kind: "action" | "modal" | "message";
+
+    /**
+     * フォームを表示したプレイヤー
+     */
+    readonly player: Player;
+
+    /**
+     * タイトル
+     */
+    readonly title: string | RawMessage | undefined;
+
+    /**
+     * 本文 (ModalFormでは`undefined`)
+     */
+    readonly body: string | RawMessage | undefined;
+
+    /**
+     * 送信ボタンの名前 (ModalForm以外では`undefined`)
+     */
+    readonly submitButton: string | RawMessage | undefined;
+
+    /**
+     * 描画された要素 (MessageFormでは2つのボタン)
+     */
+    readonly elements: readonly ServerFormTestElement[];
+
+    /**
+     * フォームが返した応答
+     */
+    readonly response: ServerFormTestResponse;
+}
+
+/**
+ * プレイヤーの操作としてあらかじめ用意する応答
+ */
+type ServerFormTestAnswer =
+    | { readonly kind: "push"; readonly button: number | string }
+    | { readonly kind: "submit"; readonly values: readonly (boolean | number | string)[] | Readonly<Record<string, boolean | number | string>> }
+    | { readonly kind: "cancel"; readonly reason: "UserBusy" | "UserClosed" };
+
+/**
+ * 描画中のフォームの状態
+ */
+interface ServerFormTestDraft {
+    title: string | RawMessage | undefined;
+
+    body: string | RawMessage | undefined;
+
+    submitButton: string | RawMessage | undefined;
+
+    readonly elements: ServerFormTestElement[];
+}
+
+/**
+ * `@minecraft/server`と`@minecraft/server-ui`の代わりに使用する偽のモジュールを提供し、
+ * サーバーの外でフォームの動作を検査するためのクラス<br>
+ * Bunでは次のように使用します。
+ * ```ts
+ * const harness = new ServerFormTestHarness();
+ * mock.module("@minecraft/server", () => harness.serverModule);
+ * mock.module("@minecraft/server-ui", () => harness.serverUiModule);
+ * const { ActionFormWrapper } = await import("../src/libs/UI-2.0");
+ * ```
+ */
+export class ServerFormTestHarness {
+    private readonly answers: ServerFormTestAnswer[] = [];
+
+    private readonly records: ServerFormTestRecord[] = [];
+
+    private readonly calls: Map<string, unknown[][]> = new Map();
+
+    private readonly scheduled: Map<number, { readonly tick: number; readonly callbackFn: () => void }> = new Map();
+
+    private readonly leaveCallbacks: Set<(event: { readonly playerId: string; readonly playerName: string }) => void> = new Set();
+
+    private currentTick: number = 0;
+
+    private nextRunId: number = 0;
+
+    private nextPlayerId: number = 0;
+
+    /**
+     * `@minecraft/server`の代わりに使用するモジュール (フォームが使用する部分のみ)
+     * <br>テストファイルは同じプロセスで実行され、モジュールの差し替えも共有されるため、`Vector.ts`が参照する`Direction`も含めます。
+     */
+    public readonly serverModule: {
+        readonly Direction: { readonly Down: "Down"; readonly East: "East"; readonly North: "North"; readonly South: "South"; readonly Up: "Up"; readonly West: "West" };
+        readonly Player: abstract new (...args: never[]) => unknown;
+        readonly system: {
+            readonly currentTick: number;
+            run(callbackFn: () => void): number;
+            runTimeout(callbackFn: () => void, tickDelay?: number): number;
+            clearRun(runId: number): void;
+        };
+        readonly world: {
+            readonly afterEvents: {
+                readonly playerLeave: {
+                    subscribe<F extends (event: { readonly playerId: string; readonly playerName: string }) => void>(callbackFn: F): F;
+                    unsubscribe(callbackFn: (event: { readonly playerId: string; readonly playerName: string }) => void): void;
+                };
+            };
+        };
+    };
+
+    /**
+     * `@minecraft/server-ui`の代わりに使用するモジュール
+     */
+    public readonly serverUiModule: {
+        readonly ActionFormData: new () => unknown;
+        readonly ModalFormData: new () => unknown;
+        readonly MessageFormData: new () => unknown;
+        readonly FormCancelationReason: { readonly UserBusy: "UserBusy"; readonly UserClosed: "UserClosed" };
+    };
+
+    /**
+     * `ServerFormTestHarness`のインスタンスを生成します。
+     */
+    public constructor() {
+        const that = this;
+
+        class FakePlayer {
+            public isValid: boolean = true;
+
+            public constructor(public readonly id: string, public readonly name: string) {}
+        }
+
+        abstract class FakeFormData {
+            protected readonly draft: ServerFormTestDraft = {
+                title: undefined,
+                body: undefined,
+                submitButton: undefined,
+                elements: []
+            };
+
+            protected abstract readonly kind: ServerFormTestRecord["kind"];
+
+            public title(text: string | RawMessage): this {
+                this.draft.title = text;
+                return this;
+            }
+
+            public label(text: string | RawMessage): this {
+                this.draft.elements.push({ type: "label", text });
+                return this;
+            }
+
+            public header(text: string | RawMessage): this {
+                this.draft.elements.push({ type: "header", text });
+                return this;
+            }
+
+            public divider(): this {
+                this.draft.elements.push({ type: "divider" });
+                return this;
+            }
+
+            public show(player: Player): Promise<ServerFormTestResponse> {
+                return Promise.resolve().then(() => that.answer(this.kind, player, this.draft));
+            }
+        }
+
+        this.serverModule = {
+            Direction: { Down: "Down", East: "East", North: "North", South: "South", Up: "Up", West: "West" },
+            Player: FakePlayer,
+            system: {
+                get currentTick() {
+                    return that.currentTick;
+                },
+                run(callbackFn) {
+                    return that.schedule(callbackFn, 1);
+                },
+                runTimeout(callbackFn, tickDelay = 1) {
+                    return that.schedule(callbackFn, tickDelay);
+                },
+                clearRun(runId) {
+                    that.scheduled.delete(runId);
+                }
+            },
+            world: {
+                afterEvents: {
+                    playerLeave: {
+                        subscribe(callbackFn) {
+                            that.leaveCallbacks.add(callbackFn);
+                            return callbackFn;
+                        },
+                        unsubscribe(callbackFn) {
+                            that.leaveCallbacks.delete(callbackFn);
+                        }
+                    }
+                }
+            }
+        };
+
+        this.serverUiModule = {
+            ActionFormData: class extends FakeFormData {
+                protected override readonly kind = "action";
+
+                public body(text: string | RawMessage): this {
+                    this.draft.body = text;
+                    return this;
+                }
+
+                public button(name: string | RawMessage, iconPath?: string): this {
+                    this.draft.elements.push({ type: "button", name, iconPath });
+                    return this;
+                }
+            },
+            ModalFormData: class extends FakeFormData {
+                protected override readonly kind = "modal";
+
+                public submitButton(name: string | RawMessage): this {
+                    this.draft.submitButton = name;
+                    return this;
+                }
+
+                public toggle(label: string | RawMessage, options: { defaultValue?: boolean } = {}): this {
+                    this.draft.elements.push({ type: "toggle", label, defaultValue: options.defaultValue ?? false });
+                    return this;
+                }
+
+                public slider(label: string | RawMessage, min: number, max: number, options: { valueStep?: number; defaultValue?: number } = {}): this {
+                    this.draft.elements.push({ type: "slider", label, min, max, step: options.valueStep ?? 1, defaultValue: options.defaultValue ?? min });
+                    return this;
+                }
+
+                public dropdown(label: string | RawMessage, options: (string | RawMessage)[], dropdownOptions: { defaultValueIndex?: number } = {}): this {
+                    this.draft.elements.push({ type: "dropdown", label, options, defaultValueIndex: dropdownOptions.defaultValueIndex ?? 0 });
+                    return this;
+                }
+
+                public textField(label: string | RawMessage, placeHolder: string | RawMessage, options: { defaultValue?: string } = {}): this {
+                    this.draft.elements.push({ type: "textField", label, placeHolder, defaultValue: options.defaultValue ?? "" });
+                    return this;
+                }
+            },
+            MessageFormData: class extends FakeFormData {
+                protected override readonly kind = "message";
+
+                private readonly buttons: [ServerFormTestElement, ServerFormTestElement] = [
+                    { type: "button", name: "", iconPath: undefined },
+                    { type: "button", name: "", iconPath: undefined }
+                ];
+
+                public body(text: string | RawMessage): this {
+                    this.draft.body = text;
+                    return this;
+                }
+
+                public button1(name: string | RawMessage): this {
+                    this.buttons[0] = { type: "button", name, iconPath: undefined };
+                    return this;
+                }
+
+                public button2(name: string | RawMessage): this {
+                    this.buttons[1] = { type: "button", name, iconPath: undefined };
+                    return this;
+                }
+
+                public override show(player: Player): Promise<ServerFormTestResponse> {
+                    this.draft.elements.splice(0, this.draft.elements.length, ...this.buttons);
+                    return super.show(player);
+                }
+            },
+            FormCancelationReason: {
+                UserBusy: "UserBusy",
+                UserClosed: "UserClosed"
+            }
+        };
+    }
+
+    /**
+     * 偽のプレイヤーを生成します。
+     * @param name プレイヤー名
+     * @returns `serverModule.Player`のインスタンス
+     */
+    public createPlayer(name: string = "Player" + this.nextPlayerId): Player {
+        const PlayerClass = this.serverModule.Player as unknown as new (id: string, name: string) => Player;
+        return new PlayerClass(String(this.nextPlayerId++), name);
+    }
+
+    /**
+     * 次に表示されるフォームでプレイヤーがボタンを押すようにします。
+     * @param button ボタンのインデックス (0始まり)、またはボタンの名前
+     * @returns `this`
+     */
+    public pushButton(button: number | string): this {
+        this.answers.push({ kind: "push", button });
+        return this;
+    }
+
+    /**
+     * 次に表示されるフォームでプレイヤーが値を送信するようにします。<br>
+     * 指定されなかった要素にはデフォルト値が使用されます。
+     * @param values 入力要素の順に並べた値、またはラベルをキーとする値 (ドロップダウンはインデックス)
+     * @returns `this`
+     */
+    public submit(values: readonly (boolean | number | string)[] | Readonly<Record<string, boolean | number | string>>): this {
+        this.answers.push({ kind: "submit", values });
+        return this;
+    }
+
+    /**
+     * 次に表示されるフォームをプレイヤーが閉じるようにします。
+     * @param reason 閉じた理由
+     * @returns `this`
+     */
+    public cancel(reason: "UserBusy" | "UserClosed"): this {
+        this.answers.push({ kind: "cancel", reason });
+        return this;
+    }
+
+    /**
+     * プレイヤーを退出させます。
+     * @param player プレイヤー
+     */
+    public leave(player: Player): void {
+        (player as { isValid: boolean }).isValid = false;
+
+        for (const callbackFn of [...this.leaveCallbacks]) {
+            callbackFn({ playerId: player.id, playerName: player.name });
+        }
+    }
+
+    /**
+     * 指定のティック数だけ時間を進め、予約された処理と保留中の`Promise`を実行します。
+     * @param count ティック数
+     */
+    public async tick(count: number = 1): Promise<void> {
+        await this.flush();
+
+        for (let i = 0; i < count; i++) {
+            this.currentTick++;
+
+            for (const [runId, { tick, callbackFn }] of [...this.scheduled]) {
+                if (tick > this.currentTick) continue;
+                this.scheduled.delete(runId);
+                callbackFn();
+            }
+
+            await this.flush();
+        }
+    }
+
+    /**
+     * 保留中の`Promise`が解決されるのを待ちます。
+     */
+    public flush(): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    /**
+     * 表示されたフォームの記録を順に返します。
+     */
+    public getRecords(): readonly ServerFormTestRecord[] {
+        return this.records;
+    }
+
+    /**
+     * 最後に表示されたフォームの記録を返します。
+     * @throws フォームが1度も表示されていないとき
+     */
+    public getLastRecord(): ServerFormTestRecord {
+        const record = this.records[this.records.length - 1];
+
+        if (record === undefined) {
+            throw new Error("フォームが表示されていません");
+        }
+
+        return record;
+    }
+
+    /**
+     * 使用されずに残っている応答の数を返します。
+     */
+    public getRemainingAnswerCount(): number {
+        return this.answers.length;
+    }
+
+    /**
+     * 呼び出しを記録する関数を生成します。
+     * @param name 記録の名前
+     * @returns 引数を記録する関数
+     */
+    public spy<A extends unknown[]>(name: string): (...args: A) => void {
+        const calls = this.calls.get(name) ?? [];
+        this.calls.set(name, calls);
+
+        return (...args) => {
+            calls.push(args);
+        };
+    }
+
+    /**
+     * `spy()`で生成された関数に渡された引数を呼び出し順に返します。
+     * @param name 記録の名前
+     */
+    public getCalls(name: string): readonly unknown[][] {
+        return this.calls.get(name) ?? [];
+    }
+
+    private schedule(callbackFn: () => void, tickDelay: number): number {
+        const runId = this.nextRunId++;
+        this.scheduled.set(runId, { tick: this.currentTick + Math.max(1, tickDelay), callbackFn });
+        return runId;
+    }
+
+    private answer(kind: ServerFormTestRecord["kind"], player: Player, draft: ServerFormTestDraft): ServerFormTestResponse {
+        const answer = this.answers.shift();
+
+        if (answer === undefined) {
+            throw new Error("フォームへの応答が用意されていません");
+        }
+
+        const response = this.responseOf(kind, draft.elements, answer);
+
+        this.records.push({
+            kind,
+            player,
+            title: draft.title,
+            body: draft.body,
+            submitButton: draft.submitButton,
+            elements: [...draft.elements],
+            response
+        });
+
+        return response;
+    }
+
+    private responseOf(kind: ServerFormTestRecord["kind"], elements: readonly ServerFormTestElement[], answer: ServerFormTestAnswer): ServerFormTestResponse {
+        switch (answer.kind) {
+            case "cancel":
+                return { canceled: true, cancelationReason: answer.reason };
+            case "push": {
+                if (kind === "modal") {
+                    throw new Error("ModalFormのボタンを押すことはできません");
+                }
+
+                const buttons = elements.filter(element => element.type === "button");
+                const selection = (typeof answer.button === "number")
+                    ? answer.button
+                    : buttons.findIndex(button => button.name === answer.button);
+
+                if (buttons[selection] === undefined) {
+                    throw new Error("ボタンが見つかりません: " + answer.button);
+                }
+
+                return { canceled: false, selection };
+            }
+            case "submit": {
+                if (kind !== "modal") {
+                    throw new Error("ModalForm以外のフォームに値を送信することはできません");
+                }
+
+                let inputIndex = 0;
+                const formValues = elements.map(element => {
+                    switch (element.type) {
+                        case "toggle":
+                        case "slider":
+                        case "dropdown":
+                        case "textField": {
+                            const value = Array.isArray(answer.values)
+                                ? answer.values[inputIndex]
+                                : (typeof element.label === "string" ? (answer.values as Readonly<Record<string, boolean | number | string>>)[element.label] : undefined);
+                            inputIndex++;
+                            return this.formValueOf(element, value);
+                        }
+                        default:
+                            return undefined;
+                    }
+                });
+
+                return { canceled: false, formValues };
+            }
+        }
+    }
+
+    private formValueOf(element: ServerFormTestElement, value: boolean | number | string | undefined): boolean | number | string {
+        switch (element.type) {
+            case "toggle":
+                if (value === undefined) return element.defaultValue;
+                else if (typeof value === "boolean") return value;
+                break;
+            case "slider":
+                if (value === undefined) return element.defaultValue;
+                else if (typeof value === "number" && element.min <= value && value <= element.max) return value;
+                break;
+            case "dropdown":
+                if (value === undefined) return element.defaultValueIndex;
+                else if (typeof value === "number" && element.options[value] !== undefined) return value;
+                break;
+            case "textField":
+                if (value === undefined) return element.defaultValue;
+                else if (typeof value === "string") return value;
+                break;
+        }
+
+        throw new Error("要素に入力できない値です: " + JSON.stringify(value) + ", " + JSON.stringify(element));
+    }
+}
@@ -0,0 +1,462 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Infer, InferOutput, sentry, TypeModel } from "../src/libs/TypeSentry";
+import { BigIntRange, IntRange, Range } from "../src/utils/NumberRange";
+
+describe("promiseOf()", () => {
+    const rejections: unknown[] = [];
+    const listener = (reason: unknown) => rejections.push(reason);
+
+    beforeEach(() => {
+        rejections.length = 0;
+        process.on("unhandledRejection", listener);
+    });
+
+    afterEach(() => {
+        process.off("unhandledRejection", listener);
+    });
+
+    /**
+     * 未処理の拒否が報告されるまで待つ
+     */
+    async function settled(): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    test("test()は解決された値を検査するPromiseを生成しない", async () => {
+        const model = sentry.promiseOf(sentry.number);
+
+        expect(model.refine(() => true, "x").test(Promise.resolve("s"))).toBe(true);
+        expect(model.pipe(sentry.promiseOf(sentry.number)).test(Promise.resolve("s"))).toBe(true);
+        expect(sentry.unionOf(sentry.string, model).test(Promise.resolve("s"))).toBe(true);
+        expect(() => sentry.structOf({ a: model, b: sentry.string }).cast({ a: Promise.resolve("s"), b: 0 })).toThrow();
+
+        await settled();
+        expect(rejections).toEqual([]);
+    });
+
+    test("検査が失敗した場合は生成したPromiseの拒否を未処理にしない", async () => {
+        const result = sentry.structOf({ a: sentry.promiseOf(sentry.number), b: sentry.string }).validate({ a: Promise.resolve("s"), b: 0 });
+
+        expect(result.success).toBe(false);
+
+        await settled();
+        expect(rejections).toEqual([]);
+    });
+
+    test("parse()は解決された値を検査する", async () => {
+        const parsed = sentry.promiseOf(sentry.number).parse(Promise.resolve("s"));
+
+        await expect(parsed).rejects.toThrow();
+    });
+
+    test("複数のpromiseOf()の合併型は解決された値の合併型として検査する", async () => {
+        const model = sentry.unionOf(sentry.promiseOf(sentry.string), sentry.promiseOf(sentry.number));
+
+        expect(model.toString()).toBe("Promise<string | number>");
+        expect(await model.parse(Promise.resolve(1))).toBe(1);
+        expect(await model.parse(Promise.resolve("a"))).toBe("a");
+        await expect(model.parse(Promise.resolve(true))).rejects.toThrow();
+    });
+
+    test("implement()は全ての引数が一致したときのみ引数を変換する", async () => {
+        const fn = sentry.functionOf([sentry.promiseOf(sentry.number), sentry.string], sentry.void).implement(() => {});
+
+        expect(() => fn(Promise.resolve("s") as unknown as Promise<number>, 0 as unknown as string)).toThrow();
+
+        await settled();
+        expect(rejections).toEqual([]);
+    });
+});
+
+describe("変換", () => {
+    test("coerce()は文字列などを変換してから元の型の条件で検査する", () => {
+        const Mode = { Survival: "survival", Creative: "creative" } as const;
+
+        expect(sentry.number.int().coerce().parse(" 42 ")).toBe(42);
+        expect(() => sentry.number.int().coerce().parse("4.2")).toThrow();
+        expect(sentry.bigint.coerce().parse("-7")).toBe(-7n);
+        expect([sentry.boolean.coerce().parse("true"), sentry.boolean.coerce().parse(0)]).toEqual([true, false]);
+        expect(sentry.enumLikeOf(Mode).coerce().parse("Creative")).toBe("creative");
+    });
+
+    test("transform()、refine()、pipe()は変換後の値に続けて適用される", () => {
+        const model = sentry.string
+            .transform(value => value.split(","))
+            .refine(values => values.length <= 3, "3つまでです")
+            .pipe(sentry.arrayOf(sentry.number.coerce()));
+        const parsed: number[] = model.parse("1,2,3");
+
+        expect(parsed).toEqual([1, 2, 3]);
+        expect(model.validate("1,2,3,4")).toMatchObject({ success: false, issues: [{ message: "3つまでです" }] });
+        expect(model.validate("1,a")).toMatchObject({ success: false, issues: [{ path: "/1" }] });
+    });
+
+    test("default()はundefinedと存在しないキーを置き換える", () => {
+        const model = sentry.structOf({ level: sentry.number.default(1), name: sentry.string });
+
+        expect(model.parse({ name: "a" })).toEqual({ level: 1, name: "a" });
+        expect(model.parse({ level: 3, name: "a" })).toEqual({ level: 3, name: "a" });
+        expect(model.test({ name: "a" })).toBe(true);
+    });
+
+    test("structOf()とarrayOf()は入れ子の値を変換した新しいオブジェクトを返す", () => {
+        const model = sentry.structOf({ items: sentry.arrayOf(sentry.structOf({ count: sentry.number.coerce() })) });
+        const input = { items: [{ count: "1" }], extra: true };
+        const parsed = model.parse(input);
+
+        expect(parsed).toEqual({ items: [{ count: 1 }], ...{ extra: true } });
+        expect(parsed).not.toBe(input);
+        expect(parsed.items).not.toBe(input.items);
+        expect(input).toEqual({ items: [{ count: "1" }], extra: true });
+    });
+
+    test("cast()は値を変換せず、元の型に一致するかのみを判定する", () => {
+        const model = sentry.number.coerce();
+
+        expect(model.test("1")).toBe(true);
+        expect(model.cast("1")).toBe("1");
+    });
+});
+
+describe("lazy()とrecursive()", () => {
+    interface Tree {
+        readonly name: string;
+        readonly children: Tree[];
+    }
+
+    const Tree: TypeModel<Tree> = sentry.recursive<Tree>("Tree", self => sentry.structOf({ name: sentry.string, children: sentry.arrayOf(self) }));
+
+    test("自己参照する型で入れ子の値を検査する", () => {
+        const tree: Tree = { name: "root", children: [{ name: "leaf", children: [] }] };
+
+        expect(Tree.test(tree)).toBe(true);
+        expect(Tree.cast(tree)).toBe(tree);
+        expect(Tree.validate({ name: "root", children: [{ name: 0, children: [] }] })).toMatchObject({ success: false, issues: [{ path: "/children/0/name" }] });
+    });
+
+    test("文字列表現では自己参照を名前で表す", () => {
+        expect(Tree.toString()).toBe("{name: string; children: Tree[]}");
+        expect(sentry.lazy(() => sentry.number).toString()).toBe("number");
+    });
+
+    test("lazy()は最初に使われるまで型を解決しない", () => {
+        let resolved = 0;
+        const model = sentry.lazy(() => {
+            resolved++;
+            return sentry.string;
+        });
+
+        expect(resolved).toBe(0);
+        expect([model.test("a"), model.test(1)]).toEqual([true, false]);
+        expect(resolved).toBe(1);
+    });
+
+    test("循環参照を含む値を拒否する", () => {
+        const cyclic: { name: string; children: unknown[] } = { name: "a", children: [] };
+        cyclic.children.push(cyclic);
+
+        const result = Tree.validate(cyclic);
+
+        expect(Tree.test(cyclic)).toBe(false);
+        expect(result.success ? [] : result.issues.map(issue => [issue.path, issue.message])).toEqual([["/children/0", "循環参照を含む値です"]]);
+    });
+});
+
+describe("discriminatedUnionOf()", () => {
+    let checked: string[] = [];
+
+    const model = sentry.discriminatedUnionOf("type", {
+        a: sentry.structOf({ type: sentry.literalOf("a"), n: sentry.number.refine(() => checked.push("a") > 0, "a") }),
+        b: sentry.structOf({ type: sentry.literalOf("b"), s: sentry.string.refine(() => checked.push("b") > 0, "b") })
+    });
+
+    test("タグに対応する型のみで検査し、型を絞り込む", () => {
+        checked = [];
+        const value = model.parse({ type: "b", s: "text", n: 0 });
+
+        expect(checked).toEqual(["b"]);
+        expect(value.type === "b" ? value.s : value.n).toBe("text");
+    });
+
+    test("未知のタグはタグの位置に報告する", () => {
+        expect(model.validate({ type: "c" })).toEqual({
+            success: false,
+            issues: [{ path: "/type", expected: "\"a\" | \"b\"", actual: "c", message: "未知のタグです" }]
+        });
+    });
+
+    test("既知のタグで本体が一致しない場合はその型の失敗を報告する", () => {
+        expect(model.validate({ type: "a", n: "1" })).toMatchObject({ success: false, issues: [{ path: "/n", message: "値の型が一致しません" }] });
+        expect(model.validate(0)).toMatchObject({ success: false, issues: [{ path: "" }] });
+    });
+});
+
+describe("getStructure()とkind", () => {
+    test("型の種類と子要素の型を返す", () => {
+        const element = sentry.string;
+        const struct = sentry.structOf({ a: sentry.number, b: sentry.optionalOf(sentry.string) });
+
+        expect(sentry.arrayOf(element).getStructure()).toEqual({ kind: "array", element });
+        expect(sentry.tupleOf(element, sentry.number).getStructure()).toEqual({ kind: "tuple", elements: [element, sentry.number] });
+        expect(sentry.unionOf(element, sentry.null).getStructure()).toEqual({ kind: "union", members: [element, sentry.null] });
+        expect(sentry.literalOf("x").getStructure()).toEqual({ kind: "literal", value: "x" });
+        expect(struct.getStructure()).toMatchObject({ kind: "struct", exact: false, catchall: undefined });
+        expect(struct.exact().getStructure()).toMatchObject({ kind: "struct", exact: true });
+        expect(struct.getModelOfKey("a")).toBe(sentry.number);
+    });
+
+    test("kindはgetStructure().kindと同じ", () => {
+        const models: TypeModel<unknown>[] = [sentry.boolean, sentry.number.int(), sentry.mapOf(sentry.string, sentry.number), sentry.promiseOf(sentry.number), sentry.string.transform(Number)];
+
+        expect(models.map(model => model.kind)).toEqual(["boolean", "number", "map", "promise", "transform"]);
+        expect(models.map(model => model.kind)).toEqual(models.map(model => model.getStructure().kind));
+    });
+
+    test("数値の条件は構造に含まれる", () => {
+        expect(sentry.number.within(IntRange.minMax(0, 10)).multipleOf(2).getStructure()).toEqual({ kind: "number", int: true, min: 0, max: 10, multipleOf: 2 });
+    });
+
+    test("lazy()の構造は参照先を解決できる", () => {
+        const structure = sentry.lazy(() => sentry.string).getStructure();
+
+        expect(structure.kind === "lazy" ? structure.resolve() : undefined).toBe(sentry.string);
+    });
+
+    test("InferとInferOutputは検査前と変換後の型を取り出す", () => {
+        const model = sentry.structOf({ count: sentry.string.transform(Number) });
+        const input: Infer<typeof model> = { count: "1" };
+        const output: InferOutput<typeof model> = model.parse(input);
+
+        expect(output.count).toBe(1);
+    });
+});
+
+describe("structOf()の合成", () => {
+    const base = sentry.structOf({ id: sentry.number, name: sentry.string, secret: sentry.optionalOf(sentry.string) });
+
+    test("partial()とrequired()はキーの必須性を切り替える", () => {
+        const partial = base.partial();
+
+        expect(partial.test({})).toBe(true);
+        expect(partial.test({ id: "1" })).toBe(false);
+        expect(partial.required().test({ id: 1, name: "a" })).toBe(false);
+        expect(partial.required().test({ id: 1, name: "a", secret: "s" })).toBe(true);
+    });
+
+    test("pick()とomit()はキーを選ぶ", () => {
+        const picked = base.pick("id", "name").getStructure();
+
+        expect(picked.kind === "struct" ? Object.keys(picked.properties) : []).toEqual(["id", "name"]);
+        expect(base.pick("id").test({ id: 1 })).toBe(true);
+        expect(base.omit("secret", "name").parse({ id: 1, secret: 0 })).toEqual({ id: 1, ...{ secret: 0 } });
+        expect(base.omit("name").test({ id: 1 })).toBe(true);
+    });
+
+    test("extend()とmerge()はキーを追加し、重複するキーは後の型になる", () => {
+        const extended = base.extend({ id: sentry.string, level: sentry.number });
+        const merged = base.merge(sentry.structOf({ level: sentry.number }).exact());
+
+        expect(extended.test({ id: "a", name: "a", level: 1 })).toBe(true);
+        expect(extended.test({ id: 1, name: "a", level: 1 })).toBe(false);
+        expect(merged.test({ id: 1, name: "a", level: 1, extra: true })).toBe(true);
+    });
+
+    test("exact()はpartial()などで引き継がれ、catchall()で取り除かれる", () => {
+        const exact = base.exact();
+
+        expect(exact.partial().test({ extra: 1 })).toBe(false);
+        expect(exact.omit("secret").test({ id: 1, name: "a", secret: "s" })).toBe(false);
+        expect(exact.extend({ level: sentry.number }).test({ id: 1, name: "a", level: 1 })).toBe(true);
+        expect(exact.catchall(sentry.string).test({ id: 1, name: "a", extra: "x" })).toBe(true);
+        expect(exact.catchall(sentry.string).test({ id: 1, name: "a", extra: 0 })).toBe(false);
+    });
+
+    test("catchall()は定義されていないキーを変換する", () => {
+        expect(base.pick("id").catchall(sentry.number.coerce()).parse({ id: 1, a: "2" })).toEqual({ id: 1, a: 2 });
+    });
+});
+
+describe("validate()", () => {
+    test("子要素の変換と条件は値ごとに一度だけ実行される", () => {
+        let count = 0;
+        const doubled = sentry.number.transform(value => {
+            count++;
+            return value * 2;
+        }).refine(value => value > 0, "正の数である必要があります");
+        const model = sentry.structOf({
+            a: sentry.arrayOf(sentry.structOf({ b: doubled })).withLength({ min: 1 }),
+            c: sentry.unionOf(sentry.string, doubled)
+        });
+
+        expect(model.parse({ a: [{ b: 1 }, { b: 2 }], c: 3 })).toEqual({ a: [{ b: 2 }, { b: 4 }], c: 6 });
+        expect(count).toBe(3);
+
+        count = 0;
+        expect(model.test({ a: [{ b: 1 }, { b: 2 }], c: 3 })).toBe(true);
+        expect(count).toBe(3);
+    });
+
+    test("合併型はリテラルのプロパティが一致した要素の失敗を報告する", () => {
+        const model = sentry.unionOf(
+            sentry.structOf({ kind: sentry.literalOf("b"), value: sentry.string }),
+            sentry.structOf({ kind: sentry.literalOf("a"), value: sentry.structOf({ n: sentry.number, m: sentry.number }) })
+        );
+        const result = model.validate({ kind: "a", value: { n: "1", m: "2" } });
+
+        expect(result.success ? [] : result.issues.map(issue => issue.path)).toEqual(["/value/n", "/value/m"]);
+    });
+
+    test("合併型はより深い位置まで一致した要素の失敗を報告する", () => {
+        const model = sentry.unionOf(
+            sentry.structOf({ a: sentry.string }),
+            sentry.structOf({ a: sentry.structOf({ n: sentry.number, m: sentry.number }) })
+        );
+        const result = model.validate({ a: { n: "1", m: "2" } });
+
+        expect(result.success ? [] : result.issues.map(issue => issue.path)).toEqual(["/a/n", "/a/m"]);
+    });
+});
+
+describe("実行時の条件", () => {
+    test("within()は範囲を検査し、IntRangeであれば整数であることも要求する", () => {
+        const model = sentry.number.within(Range.minMax(0, 1));
+        const intModel = sentry.number.within(IntRange.minMax(0, 64));
+
+        expect([model.test(0.5), model.test(1), model.test(1.5)]).toEqual([true, true, false]);
+        expect([intModel.test(64), intModel.test(0.5), intModel.test(65)]).toEqual([true, false, false]);
+        expect(sentry.bigint.within(BigIntRange.minMax(0n, 10n)).test(11n)).toBe(false);
+    });
+
+    test("within()の文字列表現は範囲を含み、intを重ねて書かない", () => {
+        expect(sentry.number.within(Range.minMax(0, 1)).toString()).toBe("number(0..1)");
+        expect(sentry.number.within(IntRange.minMax(0, 64)).toString()).toBe("number(int, 0..64)");
+        expect(sentry.number.int().within(IntRange.minMax(0, 64)).toString()).toBe("number(int, 0..64)");
+        expect(sentry.int.within(IntRange.minMax(0, 64)).toString()).toBe("number(int, 0..64)");
+    });
+
+    test("finite()、positive()、multipleOf()は数の性質を検査する", () => {
+        expect([sentry.number.finite().test(1), sentry.number.finite().test(Infinity), sentry.number.finite().test(NaN)]).toEqual([true, false, false]);
+        expect([sentry.number.positive().test(0.1), sentry.number.positive().test(0)]).toEqual([true, false]);
+        expect([sentry.number.multipleOf(0.1).test(0.3), sentry.number.multipleOf(0.1).test(0.35)]).toEqual([true, false]);
+        expect(sentry.number.positive().multipleOf(2).toString()).toBe("number(positive, multipleOf: 2)");
+        expect(() => sentry.number.multipleOf(0)).toThrow();
+    });
+
+    test("withSize()はSetとMapの要素数を検査する", () => {
+        const set = sentry.setOf(sentry.number).withSize({ max: 1 });
+        const map = sentry.mapOf(sentry.string, sentry.number).withSize({ min: 1 });
+
+        expect([set.test(new Set([1])), set.test(new Set([1, 2]))]).toEqual([true, false]);
+        expect([map.test(new Map([["a", 1]])), map.test(new Map())]).toEqual([true, false]);
+        expect(set.toString()).toBe("Set<number>(size: 0..1)");
+    });
+
+    test("unique()は要素の型が値を変換する場合、変換後の要素を比較する", () => {
+        const model = sentry.arrayOf(sentry.string.transform(value => value.toLowerCase())).unique();
+
+        expect(model.parse(["a", "b"])).toEqual(["a", "b"]);
+        expect(model.validate(["a", "A"]).success).toBe(false);
+        expect(model.test(["a", "A"])).toBe(false);
+        expect(model.withLength({ max: 3 }).test(["a", "A"])).toBe(false);
+    });
+});
+
+describe("fromJSONSchema()", () => {
+    const Color = { Red: "red", Green: "green" } as const;
+
+    // 最後の要素は、元の型は受け入れるがJSON Schemaとしては受け入れるべきでない値
+    const cases: [string, TypeModel<unknown>, unknown[], unknown[], unknown[]?][] = [
+        ["boolean", sentry.boolean, [true, false], [0, "true"]],
+        ["number", sentry.number, [0, -1.5], ["0", null]],
+        ["int", sentry.number.int(), [3], [3.5]],
+        ["within", sentry.number.within(IntRange.minMax(1, 5)), [1, 5], [0, 6]],
+        ["positive", sentry.number.positive(), [0.1], [0, -1]],
+        ["multipleOf", sentry.number.multipleOf(0.5), [1.5], [1.2]],
+        ["string", sentry.string, ["", "a"], [0]],
+        ["withLength", sentry.string.withLength({ min: 2, max: 3 }), ["ab", "abc"], ["a", "abcd"]],
+        ["withPattern", sentry.string.withPattern(/^a/).withPattern(/b$/), ["ab", "acb"], ["ba", "a", "b"]],
+        ["null", sentry.null, [null], [undefined, 0]],
+        ["literalOf", sentry.literalOf("a"), ["a"], ["b"]],
+        ["enumLikeOf", sentry.enumLikeOf(Color), ["red", "green"], ["Red", "blue"]],
+        ["arrayOf", sentry.arrayOf(sentry.number).withLength({ min: 1, max: 2 }), [[1], [1, 2]], [[], [1, 2, 3], ["1"]]],
+        ["unique", sentry.arrayOf(sentry.number).unique(), [[1, 2]], [[1, 1]]],
+        ["unique (structural)", sentry.arrayOf(sentry.arrayOf(sentry.objectOf({ a: sentry.number }))).unique(), [[[{ a: 1 }], [{ a: 2 }]]], [[[{ a: 1 }], [{ a: 1 }]]]],
+        ["tupleOf", sentry.tupleOf(sentry.string, sentry.number), [["a", 1]], [["a"], ["a", 1, 2], [1, "a"]]],
+        ["recordOf", sentry.recordOf(sentry.string, sentry.number), [{}, { a: 1 }], [{ a: "1" }, 0], [[]]],
+        ["recordOf (key)", sentry.recordOf(sentry.string.withPattern(/^k/), sentry.number), [{ k: 1 }], [{ a: 1 }]],
+        ["objectOf", sentry.objectOf({ a: sentry.number }), [{ a: 1 }, { a: 1, b: 2 }], [{}, { a: "1" }], [Object.assign([], { a: 1 })]],
+        ["structOf", sentry.structOf({ a: sentry.number, b: sentry.optionalOf(sentry.string) }), [{ a: 1 }, { a: 1, b: "b" }], [{ b: "b" }, { a: 1, b: 2 }], [Object.assign([], { a: 1 })]],
+        ["exact", sentry.structOf({ a: sentry.number }).exact(), [{ a: 1 }], [{ a: 1, b: 2 }]],
+        ["catchall", sentry.structOf({ a: sentry.number }).catchall(sentry.string), [{ a: 1, b: "b" }], [{ a: 1, b: 2 }]],
+        ["default", sentry.structOf({ a: sentry.number.default(0) }), [{}, { a: 1 }], [{ a: "1" }]],
+        ["nullableOf", sentry.nullableOf(sentry.number), [null, 1], [undefined, "1"]],
+        ["unionOf", sentry.unionOf(sentry.number, sentry.string), [1, "a"], [true]],
+        ["intersectionOf", sentry.intersectionOf(sentry.objectOf({ a: sentry.number }), sentry.objectOf({ b: sentry.string })), [{ a: 1, b: "b" }], [{ a: 1 }, { b: "b" }]],
+        ["discriminatedUnionOf", sentry.discriminatedUnionOf("kind", {
+            a: sentry.structOf({ kind: sentry.literalOf("a"), value: sentry.number }),
+            b: sentry.structOf({ kind: sentry.literalOf("b"), value: sentry.string })
+        }), [{ kind: "a", value: 1 }, { kind: "b", value: "b" }], [{ kind: "a", value: "b" }, { kind: "c", value: 1 }]],
+        ["recursive", sentry.recursive<unknown>("Tree", self => sentry.structOf({ children: sentry.arrayOf(self) })), [{ children: [{ children: [] }] }], [{ children: [{}] }]]
+    ];
+
+    for (const [name, model, accepted, rejected, rejectedBySchema = []] of cases) {
+        test(`${name}はtoJSONSchema()の出力から同じ値を受け入れる型に戻る`, () => {
+            const imported = sentry.fromJSONSchema(model.toJSONSchema());
+
+            for (const value of accepted) {
+                expect([value, model.test(value), imported.test(value)]).toEqual([value, true, true]);
+            }
+
+            for (const value of rejected) {
+                expect([value, model.test(value), imported.test(value)]).toEqual([value, false, false]);
+            }
+
+            for (const value of rejectedBySchema) {
+                expect([value, model.test(value), imported.test(value)]).toEqual([value, true, false]);
+            }
+        });
+    }
+
+    test("$refと並んだキーワードも適用される", () => {
+        const model = sentry.fromJSONSchema({ $defs: { n: { type: "number" } }, $ref: "#/$defs/n", minimum: 3 });
+
+        expect(model.test(3)).toBe(true);
+        expect(model.test(1)).toBe(false);
+        expect(model.test("3")).toBe(false);
+    });
+
+    test("exclusiveMinimumとexclusiveMaximumは境界を含まない", () => {
+        const model = sentry.fromJSONSchema({ type: "number", exclusiveMinimum: 1, exclusiveMaximum: 10 });
+
+        expect(model.test(1.5)).toBe(true);
+        expect(model.test(9.5)).toBe(true);
+        expect(model.test(1)).toBe(false);
+        expect(model.test(10)).toBe(false);
+        expect(sentry.fromJSONSchema({ exclusiveMaximum: 0 }).test("a")).toBe(true);
+    });
+
+    test("allOfの要素は全て満たす必要がある", () => {
+        const model = sentry.fromJSONSchema({ type: "string", allOf: [{ minLength: 2 }, { pattern: "^a" }] });
+
+        expect(model.test("ab")).toBe(true);
+        expect(model.test("a")).toBe(false);
+        expect(model.test("bb")).toBe(false);
+    });
+
+    test("oneOfは一つの要素にのみ一致する値を受け入れる", () => {
+        const model = sentry.fromJSONSchema({ oneOf: [{ type: "number", minimum: 0 }, { type: "number", maximum: 10 }] });
+
+        expect(model.test(-1)).toBe(true);
+        expect(model.test(11)).toBe(true);
+        expect(model.test(5)).toBe(false);
+    });
+
+    test("constとenumは並んだtypeも満たす必要がある", () => {
+        expect(sentry.fromJSONSchema({ type: "string", const: 1 }).test(1)).toBe(false);
+
+        const model = sentry.fromJSONSchema({ type: "string", enum: ["a", 1] });
+
+        expect(model.test("a")).toBe(true);
+        expect(model.test(1)).toBe(false);
+    });
+});
@@ -0,0 +1,613 @@
+import { describe, expect, mock, test } from "bun:test";
+import { ServerFormTestHarness } from "./ServerFormTestHarness";
+import { sentry } from "../src/libs/TypeSentry";
+import { IntRange } from "../src/utils/NumberRange";
+
+const harness = new ServerFormTestHarness();
+mock.module("@minecraft/server", () => harness.serverModule);
+mock.module("@minecraft/server-ui", () => harness.serverUiModule);
+
+const { ActionFormListWrapper, ActionFormWrapper, MessageFormWrapper, ModalFormWrapper, ServerFormError, ServerFormHandlerRegistry, ServerFormJSONReader, ServerFormNavigator, ServerFormPresets } = await import("../src/libs/UI-2.0");
+
+describe("show()", () => {
+    test("ActionFormWrapperは押されたボタンに解決される", async () => {
+        const player = harness.createPlayer();
+        const pushed = harness.spy<[string]>("action.on");
+
+        harness.pushButton("b");
+        const result = await new ActionFormWrapper()
+            .title("title")
+            .button({ name: "a" })
+            .button({ name: "b", on: () => pushed("b") })
+            .show(player);
+
+        expect(result.kind).toBe("pushed");
+        expect(result.kind === "pushed" && result.button.name).toBe("b");
+        expect(harness.getCalls("action.on")).toEqual([["b"]]);
+        expect(harness.getLastRecord().title).toBe("title");
+    });
+
+    test("閉じられた場合は理由とともにcanceledに解決される", async () => {
+        const player = harness.createPlayer();
+        const closed = harness.spy<[string]>("action.cancel");
+
+        harness.cancel("UserClosed");
+        const result = await new ActionFormWrapper()
+            .button({ name: "a" })
+            .onCancel("UserClosed", event => closed(event.reason))
+            .show(player);
+
+        expect(result).toEqual({ kind: "canceled", reason: "UserClosed" });
+        expect(harness.getCalls("action.cancel")).toEqual([["UserClosed"]]);
+    });
+
+    test("ModalFormWrapperは要素のIDをキーとする値に解決される", async () => {
+        const player = harness.createPlayer();
+
+        harness.submit([true, 3, 1, "text"]);
+        const result = await new ModalFormWrapper()
+            .toggle({ id: "enabled", label: "Enabled" })
+            .slider({ id: "count", label: "Count", range: { min: 0, max: 5 } })
+            .dropdown({ id: "color", label: "Color", list: [{ id: "red", text: "Red" }, { id: "blue", text: "Blue" }] })
+            .textField({ id: "name", label: "Name", placeHolder: "" })
+            .show(player);
+
+        expect(result.kind).toBe("submitted");
+        if (result.kind !== "submitted") return;
+        expect(result.values.enabled).toBe(true);
+        expect(result.values.count).toBe(3);
+        expect(result.values.color).toEqual({ index: 1, value: { id: "blue", text: "Blue" } });
+        expect(result.values.name).toBe("text");
+    });
+
+    test("メソッドチェーンを用いずに組み立てたModalFormWrapperも文字列のIDで値を取得できる", async () => {
+        const player = harness.createPlayer();
+        const form = new ModalFormWrapper();
+        let enabled: boolean | undefined;
+
+        form.toggle({ id: "enabled", label: "Enabled" });
+        form.submitButton({
+            name: "Submit",
+            on: event => {
+                enabled = event.getToggleInput("enabled");
+            }
+        });
+
+        new ModalFormWrapper().toggle({ id: "enabled", label: "Enabled" }).submitButton({
+            name: "Submit",
+            on: event => {
+                // @ts-expect-error メソッドチェーンで組み立てたフォームは存在しないIDを拒否する
+                event.getToggleInput("enable");
+            }
+        });
+
+        harness.submit([true]);
+        await form.show(player);
+
+        expect(enabled).toBe(true);
+    });
+
+    test("MessageFormWrapperは押されたボタンに解決される", async () => {
+        const player = harness.createPlayer();
+
+        harness.pushButton(1);
+        const result = await new MessageFormWrapper()
+            .body("body")
+            .button1({ name: "yes" })
+            .button2({ name: "no" })
+            .show(player);
+
+        expect(result.kind === "pushed" && result.button.name).toBe("no");
+    });
+
+    test("設定の不備はopen()が同期的にServerFormErrorとして投げる", async () => {
+        const player = harness.createPlayer();
+        const count = harness.getRecords().length;
+
+        expect(() => new MessageFormWrapper().open(player)).toThrow(ServerFormError);
+        await expect(new MessageFormWrapper().show(player)).rejects.toBeInstanceOf(ServerFormError);
+        expect(harness.getRecords().length).toBe(count);
+    });
+});
+
+describe("プレイヤーごとの要素", () => {
+    test("ボタンの名前と表示はプレイヤーから計算され、押下イベントには計算後の値が渡される", async () => {
+        const alice = harness.createPlayer("Alice");
+        const bob = harness.createPlayer("Bob");
+        const pushed = harness.spy<[unknown]>("button.on");
+        const form = new ActionFormWrapper()
+            .button({ name: player => "Hello, " + player.name })
+            .button({ name: "admin", visible: player => player.name === "Alice" })
+            .onPush(event => pushed(event.button.name));
+
+        harness.pushButton(0);
+        await form.show(alice);
+        expect(harness.getLastRecord().elements).toMatchObject([{ type: "button", name: "Hello, Alice" }, { type: "button", name: "admin" }]);
+
+        harness.pushButton(0);
+        await form.show(bob);
+        expect(harness.getLastRecord().elements).toMatchObject([{ type: "button", name: "Hello, Bob" }]);
+
+        expect(harness.getCalls("button.on")).toEqual([["Hello, Alice"], ["Hello, Bob"]]);
+    });
+
+    test("ドロップダウンの選択肢はプレイヤーから計算される", async () => {
+        const player = harness.createPlayer("Alice");
+
+        harness.submit([1]);
+        const result = await new ModalFormWrapper()
+            .dropdown({ id: "target", label: "Target", list: p => [{ id: "self", text: p.name }, { id: "all", text: "All" }] })
+            .show(player);
+
+        expect(harness.getLastRecord().elements).toMatchObject([{ type: "dropdown", options: ["Alice", "All"] }]);
+        expect(result).toEqual({ kind: "submitted", values: { target: { index: 1, value: { id: "all", text: "All" } } } });
+    });
+
+    test("非表示の要素はデフォルト値を持ち、送信イベントの取得メソッドでも取得できる", async () => {
+        const player = harness.createPlayer();
+        let inputs: unknown[] = [];
+
+        harness.submit(["text"]);
+        const result = await new ModalFormWrapper()
+            .toggle({ id: "hidden", label: "Hidden", defaultValue: true, visible: () => false })
+            .dropdown({ id: "choice", label: "Choice", list: [{ id: "a", text: "A" }], visible: () => false })
+            .textField({ id: "name", label: "Name", placeHolder: "" })
+            .submitButton({
+                name: "Submit",
+                on: event => {
+                    inputs = [event.getToggleInput("hidden"), event.getDropdownInput("choice"), event.getTextFieldInput("name"), event.getAllInputs()];
+                }
+            })
+            .show(player);
+
+        expect(harness.getLastRecord().elements.map(element => element.type)).toEqual(["textField"]);
+        expect(result).toEqual({ kind: "submitted", values: { hidden: true, choice: { index: 0, value: { id: "a", text: "A" } }, name: "text" } });
+        expect(inputs).toEqual([true, { index: 0, value: { id: "a", text: "A" } }, "text", ["text"]]);
+    });
+});
+
+describe("ModalFormWrapper.fromModel()", () => {
+    test("範囲と倍数の条件を持つ整数はスライダーになり、ラベルを省略した要素はプロパティ名がラベルになる", async () => {
+        const player = harness.createPlayer();
+        const form = ModalFormWrapper.fromModel(
+            sentry.structOf({
+                level: sentry.number.within(IntRange.minMax(0, 10)).multipleOf(2),
+                amount: sentry.number
+            }),
+            { level: "Level" }
+        );
+
+        harness.submit([4, "1.5"]);
+        const result = await form.show(player);
+
+        expect(result).toEqual({ kind: "submitted", values: { level: 4, amount: 1.5 } });
+        expect(harness.getLastRecord().elements).toMatchObject([
+            { type: "slider", label: "Level", min: 0, max: 10, step: 2 },
+            { type: "textField", label: "amount" }
+        ]);
+    });
+
+    test("範囲のない数値はテキストフィールドになり、数値として解釈できない入力は検査に失敗する", async () => {
+        const player = harness.createPlayer();
+        const form = ModalFormWrapper.fromModel(
+            sentry.structOf({ amount: sentry.number, limit: sentry.optionalOf(sentry.number) }),
+            { amount: "Amount", limit: "Limit" }
+        );
+
+        harness.submit(["x", ""]);
+        harness.submit(["2.5", ""]);
+        const promise = form.show(player);
+        await harness.tick(2);
+        const result = await promise;
+
+        expect(result).toEqual({ kind: "submitted", values: { amount: 2.5 } });
+        expect(harness.getRecords().slice(-2).map(record => record.elements.map(element => element.type))).toEqual([
+            ["textField", "textField"],
+            ["textField", "label", "textField"]
+        ]);
+    });
+
+    test("検査に失敗するとエラーメッセージを添えて開き直す", async () => {
+        const player = harness.createPlayer();
+        const form = ModalFormWrapper.fromModel(
+            sentry.structOf({
+                name: sentry.string.withLength({ min: 3 }),
+                level: sentry.number.within(IntRange.minMax(1, 5))
+            }),
+            { name: "Name", level: "Level" }
+        );
+
+        harness.submit(["ab", 2]);
+        harness.submit(["abc", 4]);
+        const promise = form.show(player);
+        await harness.tick(2);
+        const result = await promise;
+
+        expect(result).toEqual({ kind: "submitted", values: { name: "abc", level: 4 } });
+
+        const [first, second] = harness.getRecords().slice(-2);
+        expect(first!.elements.map(element => element.type)).toEqual(["textField", "slider"]);
+        expect(second!.elements.map(element => element.type)).toEqual(["textField", "label", "slider"]);
+        expect(second!.elements[0]).toMatchObject({ type: "textField", defaultValue: "ab" });
+        expect(second!.elements[1]).toMatchObject({ type: "label", text: expect.stringMatching(/^§c/) });
+    });
+});
+
+describe("ServerFormPresets.prompt()", () => {
+    test("モデルで変換された値に解決される", async () => {
+        const player = harness.createPlayer();
+        const model = sentry.string.withLength({ min: 1 }).transform(value => value.split(","));
+
+        harness.submit([""]).submit(["a,b"]);
+        const promise = ServerFormPresets.prompt(player, "Tags", model);
+        await harness.tick(1);
+
+        expect(await promise).toEqual(["a", "b"]);
+
+        harness.cancel("UserClosed");
+        expect(await ServerFormPresets.prompt(player, "Tags", model)).toBeUndefined();
+    });
+});
+
+describe("ActionFormListWrapper.search()", () => {
+    test("デフォルトの検索は大文字と小文字を区別せず、RawMessageの名前はtextで比較する", async () => {
+        const player = harness.createPlayer();
+        const items = [
+            { id: 1, name: "Apple" },
+            { id: 2, name: { text: "Banana" } },
+            { id: 3, name: { rawtext: [{ text: "Cherry" }, { translate: "item.apple.name" }] } }
+        ];
+
+        harness.submit(["AN"]).pushButton(0);
+        const result = await new ActionFormListWrapper(items, item => ({ name: item.name }))
+            .search()
+            .show(player);
+
+        expect(result).toEqual({ kind: "selected", item: items[1]! });
+        expect(harness.getLastRecord().elements.filter(element => element.type === "button")).toHaveLength(2);
+
+        harness.submit(["cherry"]).pushButton(0);
+        expect(await new ActionFormListWrapper(items, item => ({ name: item.name })).search().show(player)).toEqual({ kind: "selected", item: items[2]! });
+    });
+});
+
+describe("retryOnBusy()", () => {
+    test("上限に達すると諦めてonGiveUpとonCancelを呼び出す", async () => {
+        const player = harness.createPlayer();
+        const gaveUp = harness.spy<[number]>("retry.giveUp");
+        const canceled = harness.spy<[string]>("retry.cancel");
+
+        harness.cancel("UserBusy").cancel("UserBusy");
+        const promise = new ActionFormWrapper()
+            .button({ name: "a" })
+            .retryOnBusy({ maxAttempts: 2, interval: 5, onGiveUp: event => gaveUp(event.attempts) })
+            .onCancel("UserBusy", event => canceled(event.reason))
+            .show(player);
+
+        await harness.tick(10);
+
+        expect(await promise).toEqual({ kind: "canceled", reason: "UserBusy" });
+        expect(harness.getCalls("retry.giveUp")).toEqual([[2]]);
+        expect(harness.getCalls("retry.cancel")).toEqual([["UserBusy"]]);
+        expect(harness.getRemainingAnswerCount()).toBe(0);
+    });
+
+    test("プレイヤーが退出すると再試行を中止する", async () => {
+        const player = harness.createPlayer();
+        const canceled = harness.spy<[string]>("retry.leave.cancel");
+        const recordCount = harness.getRecords().length;
+
+        harness.cancel("UserBusy");
+        const promise = new ActionFormWrapper()
+            .button({ name: "a" })
+            .retryOnBusy({ interval: 5 })
+            .onCancel("Any", event => canceled(event.reason))
+            .show(player);
+
+        await harness.tick(1);
+        harness.leave(player);
+        await harness.tick(10);
+
+        expect(await promise).toEqual({ kind: "canceled", reason: "UserBusy" });
+        expect(harness.getRecords().length).toBe(recordCount + 1);
+        expect(harness.getCalls("retry.leave.cancel")).toEqual([]);
+    });
+
+    test("検査に失敗して開き直したフォームはエラーメッセージと入力値を保ったまま再試行される", async () => {
+        const player = harness.createPlayer();
+        const form = ModalFormWrapper.fromModel(
+            sentry.structOf({ name: sentry.string.withLength({ min: 3 }) }),
+            { name: "Name" }
+        ).retryOnBusy({ interval: 1 });
+
+        harness.submit(["ab"]).cancel("UserBusy").submit(["abc"]);
+        const promise = form.show(player);
+        await harness.tick(3);
+
+        expect(await promise).toEqual({ kind: "submitted", values: { name: "abc" } });
+
+        const [first, second, third] = harness.getRecords().slice(-3);
+        expect(first!.elements.map(element => element.type)).toEqual(["textField"]);
+        expect(third!.elements).toEqual(second!.elements);
+        expect(third!.elements[0]).toMatchObject({ type: "textField", defaultValue: "ab" });
+        expect(third!.elements[1]).toMatchObject({ type: "label", text: expect.stringMatching(/^§c/) });
+        expect(harness.getRemainingAnswerCount()).toBe(0);
+    });
+
+    test("ActionFormListWrapperは閉じられたフォームから検索文字列を保ったまま再開する", async () => {
+        const player = harness.createPlayer();
+
+        harness.submit(["b"]).pushButton("次のページ >>").cancel("UserBusy").pushButton("bc");
+        const promise = new ActionFormListWrapper(["a", "b", "ab", "bc"], item => ({ name: item }))
+            .title("list")
+            .pageSize(2)
+            .search()
+            .retryOnBusy({ interval: 1 })
+            .show(player);
+
+        await harness.tick(3);
+
+        expect(await promise).toEqual({ kind: "selected", item: "bc" });
+
+        const records = harness.getRecords().slice(-4);
+        expect(records.map(record => record.kind)).toEqual(["modal", "action", "action", "action"]);
+        expect(records[2]!.elements).toEqual(records[3]!.elements);
+        expect(records[3]!.elements.map(element => element.type === "button" && element.name)).toEqual(["bc", "<< 前のページ", "検索"]);
+        expect(harness.getRemainingAnswerCount()).toBe(0);
+    });
+});
+
+describe("ServerFormNavigator", () => {
+    function navigatorOf() {
+        return new ServerFormNavigator<{ home: undefined; sub: undefined }>()
+            .route("home", ({ navigator, player }) => new ActionFormWrapper()
+                .title("home")
+                .button({ name: "open", on: () => navigator.push(player, "sub") }))
+            .route("sub", () => new ActionFormWrapper()
+                .title("sub")
+                .button({ name: "item" }));
+    }
+
+    test("戻るボタンで前のページに戻る", async () => {
+        const player = harness.createPlayer();
+        const navigator = navigatorOf();
+
+        harness.pushButton("open").pushButton("戻る").cancel("UserClosed");
+        navigator.backButton("戻る").push(player, "home");
+        await harness.tick(2);
+
+        const records = harness.getRecords().slice(-3);
+        expect(records.map(record => record.title)).toEqual(["home", "sub", "home"]);
+        expect(records[1]!.elements).toEqual([
+            { type: "button", name: "item", iconPath: undefined },
+            { type: "button", name: "戻る", iconPath: undefined }
+        ]);
+        expect(records[2]!.elements).toHaveLength(1);
+        expect(navigator.getBreadcrumbs(player)).toEqual([]);
+        expect(harness.getRemainingAnswerCount()).toBe(0);
+    });
+
+    test("閉じると前のページが開き直される", async () => {
+        const player = harness.createPlayer();
+        const navigator = navigatorOf();
+
+        harness.pushButton("open").cancel("UserClosed").cancel("UserClosed");
+        navigator.push(player, "home");
+        await harness.tick(2);
+
+        expect(harness.getRecords().slice(-3).map(record => record.title)).toEqual(["home", "sub", "home"]);
+        expect(harness.getRecords().at(-3)!.elements).toHaveLength(1);
+        expect(navigator.getBreadcrumbs(player)).toEqual([]);
+        expect(harness.getRemainingAnswerCount()).toBe(0);
+    });
+
+    test("使い回されたページのフォームに戻るボタンや閉じたときの処理が積み重ならない", async () => {
+        const player = harness.createPlayer();
+        const sub = new ActionFormWrapper().title("sub").button({ name: "item" });
+        const navigator = new ServerFormNavigator<{ home: undefined; sub: undefined }>()
+            .backButton("戻る")
+            .route("home", ({ navigator, player }) => new ActionFormWrapper()
+                .title("home")
+                .button({ name: "open", on: () => navigator.push(player, "sub") }))
+            .route("sub", () => sub);
+
+        harness.pushButton("open").pushButton("戻る").pushButton("open").cancel("UserClosed").cancel("UserClosed");
+        navigator.push(player, "home");
+        await harness.tick(4);
+
+        const records = harness.getRecords().slice(-5);
+        expect(records.map(record => record.title)).toEqual(["home", "sub", "home", "sub", "home"]);
+        expect(records[3]!.elements).toHaveLength(2);
+        expect(sub.elements.getButtons()).toHaveLength(1);
+        expect(harness.getRemainingAnswerCount()).toBe(0);
+    });
+
+    test("ページのonCancelからのreopen()は戻るボタンのついたページとして一度だけ開き直す", async () => {
+        const player = harness.createPlayer();
+        const canceled = harness.spy<[string]>("navigator.cancel");
+        const navigator = new ServerFormNavigator<{ home: undefined; sub: undefined }>()
+            .backButton("戻る")
+            .route("home", ({ navigator, player }) => new ActionFormWrapper()
+                .title("home")
+                .button({ name: "open", on: () => navigator.push(player, "sub") }))
+            .route("sub", () => new ActionFormWrapper()
+                .title("sub")
+                .button({ name: "item" })
+                .onCancel("UserBusy", event => {
+                    canceled(event.reason);
+                    event.reopen();
+                }));
+
+        harness.pushButton("open").cancel("UserBusy").pushButton("item");
+        navigator.push(player, "home");
+        await harness.tick(3);
+
+        const records = harness.getRecords().slice(-3);
+        expect(records.map(record => record.title)).toEqual(["home", "sub", "sub"]);
+        expect(records[2]!.elements).toEqual(records[1]!.elements);
+        expect(harness.getCalls("navigator.cancel")).toEqual([["UserBusy"]]);
+        expect(harness.getRemainingAnswerCount()).toBe(0);
+    });
+
+    test("ページのretryOnBusy()が再試行を諦めた場合は開き直さない", async () => {
+        const player = harness.createPlayer();
+        const canceled = harness.spy<[string]>("navigator.giveUp");
+        const count = harness.getRecords().length;
+        const navigator = new ServerFormNavigator<{ home: undefined }>()
+            .route("home", () => new ActionFormWrapper()
+                .title("home")
+                .button({ name: "item" })
+                .retryOnBusy({ maxAttempts: 2, interval: 1 })
+                .onCancel("UserBusy", event => canceled(event.reason)));
+
+        harness.cancel("UserBusy").cancel("UserBusy");
+        navigator.push(player, "home");
+        await harness.tick(5);
+
+        expect(harness.getRecords().length).toBe(count + 2);
+        expect(harness.getCalls("navigator.giveUp")).toEqual([["UserBusy"]]);
+        expect(navigator.getBreadcrumbs(player)).toEqual(["home"]);
+        expect(harness.getRemainingAnswerCount()).toBe(0);
+    });
+
+    test("プレイヤーが退出すると履歴が破棄され、ページは開き直されない", async () => {
+        const player = harness.createPlayer();
+        const navigator = navigatorOf();
+        const count = harness.getRecords().length;
+
+        harness.cancel("UserBusy");
+        navigator.push(player, "home");
+        expect(navigator.getBreadcrumbs(player)).toEqual(["home"]);
+
+        harness.leave(player);
+        expect(navigator.getBreadcrumbs(player)).toEqual([]);
+
+        await harness.tick(2);
+        expect(harness.getRecords().length).toBe(count + 1);
+        expect(navigator.getBreadcrumbs(player)).toEqual([]);
+    });
+});
+
+describe("ServerFormJSONReader", () => {
+    function issueOf(value: unknown): string {
+        try {
+            new ServerFormJSONReader(new ServerFormHandlerRegistry()).read(value);
+        }
+        catch (error) {
+            expect(error).toBeInstanceOf(ServerFormError);
+            return (error as Error).message;
+        }
+
+        throw new Error("フォームが生成されました");
+    }
+
+    test("ActionFormのボタンは登録されたハンドラーを呼び出す", async () => {
+        const player = harness.createPlayer();
+        const pushed = harness.spy<[string]>("json.action");
+        const registry = new ServerFormHandlerRegistry().button("greet", player => pushed(player.name));
+
+        const form = new ServerFormJSONReader(registry).parse(JSON.stringify({
+            type: "action",
+            title: "menu",
+            body: ["line1", "line2"],
+            elements: [
+                { type: "label", id: "note", text: "note" },
+                { type: "button", name: "greet", handler: "greet" },
+                { type: "button", name: "none" }
+            ]
+        }));
+
+        harness.pushButton("greet");
+        const result = await form.show(player);
+
+        expect(form).toBeInstanceOf(ActionFormWrapper);
+        expect(result.kind).toBe("pushed");
+        expect(harness.getLastRecord().title).toBe("menu");
+        expect(harness.getLastRecord().elements.map(element => element.type)).toEqual(["label", "button", "button"]);
+        expect(harness.getCalls("json.action")).toEqual([[player.name]]);
+    });
+
+    test("ModalFormの要素と送信ボタンのハンドラーが読み込まれる", async () => {
+        const player = harness.createPlayer();
+        let submitted: unknown;
+        const registry = new ServerFormHandlerRegistry().submit("save", event => {
+            submitted = event.values;
+        });
+
+        const form = new ServerFormJSONReader(registry).read({
+            type: "modal",
+            title: "settings",
+            submitButton: { name: "save", handler: "save" },
+            elements: [
+                { type: "toggle", id: "enabled", label: "Enabled" },
+                { type: "slider", id: "volume", label: "Volume", range: { min: 0, max: 10 }, defaultValue: 5 },
+                { type: "dropdown", id: "mode", label: "Mode", list: [{ id: "a", text: "A" }, { id: "b", text: "B" }], defaultValueIndex: 1 },
+                { type: "textField", id: "name", label: "Name", placeHolder: "name" }
+            ]
+        });
+
+        harness.submit([true, 3, 0, "abc"]);
+        const result = await form.show(player);
+
+        expect(form).toBeInstanceOf(ModalFormWrapper);
+        expect(harness.getLastRecord().elements).toMatchObject([
+            { type: "toggle", label: "Enabled" },
+            { type: "slider", label: "Volume", min: 0, max: 10, defaultValue: 5 },
+            { type: "dropdown", label: "Mode", options: ["A", "B"], defaultValueIndex: 1 },
+            { type: "textField", label: "Name" }
+        ]);
+
+        const values = { enabled: true, volume: 3, mode: { index: 0, value: { id: "a", text: "A" } }, name: "abc" };
+        expect(result).toEqual({ kind: "submitted", values });
+        expect(submitted).toEqual(values);
+    });
+
+    test("MessageFormのボタンは登録されたハンドラーを呼び出す", async () => {
+        const player = harness.createPlayer();
+        const pushed = harness.spy<[string]>("json.message");
+        const registry = new ServerFormHandlerRegistry()
+            .button("yes", () => pushed("yes"))
+            .button("no", () => pushed("no"));
+
+        const form = new ServerFormJSONReader(registry).read({
+            type: "message",
+            body: "body",
+            button1: { name: "yes", handler: "yes" },
+            button2: { name: "no", handler: "no" }
+        });
+
+        harness.pushButton(1);
+        await form.show(player);
+
+        expect(form).toBeInstanceOf(MessageFormWrapper);
+        expect(harness.getCalls("json.message")).toEqual([["no"]]);
+    });
+
+    test("未登録のハンドラーや重複したハンドラーのIDはServerFormErrorになる", () => {
+        const reader = new ServerFormJSONReader(new ServerFormHandlerRegistry());
+
+        expect(() => reader.read({ type: "action", elements: [{ type: "button", name: "a", handler: "missing" }] })).toThrow(/missing/);
+        expect(() => reader.read({ type: "modal", submitButton: { name: "ok", handler: "missing" }, elements: [] })).toThrow(ServerFormError);
+        expect(() => new ServerFormHandlerRegistry().button("a", () => {}).button("a", () => {})).toThrow(ServerFormError);
+    });
+
+    test("JSONとして解釈できない文字列はServerFormErrorになる", () => {
+        expect(() => new ServerFormJSONReader(new ServerFormHandlerRegistry()).parse("{ type: ")).toThrow(ServerFormError);
+    });
+
+    test("形式に一致しない値は問題の位置を伴って拒否される", () => {
+        expect(issueOf({ type: "unknown", elements: [] })).toContain("at '/type'");
+        expect(issueOf({ type: "action", elements: [{ type: "button" }] })).toContain("at '/elements/0/name'");
+        expect(issueOf({ type: "message", body: "body", button1: { name: "a" } })).toContain("at '/button2'");
+    });
+
+    test("スライダーやドロップダウンのデフォルト値の不整合と要素のIDの重複は拒否される", () => {
+        const slider = { type: "slider", id: "volume", label: "Volume", range: { min: 0, max: 10 } };
+        const dropdown = { type: "dropdown", id: "mode", label: "Mode", list: [{ id: "a", text: "A" }] };
+
+        expect(issueOf({ type: "modal", elements: [{ ...slider, defaultValue: 11 }] })).toContain("at '/elements/0': defaultValueがrangeの範囲外です");
+        expect(issueOf({ type: "modal", elements: [{ type: "divider", id: "d" }, { ...dropdown, defaultValueIndex: 1 }] })).toContain("at '/elements/1': defaultValueIndexがlistの範囲外です");
+        expect(issueOf({ type: "modal", elements: [{ ...dropdown, list: [] }] })).toContain("at '/elements/0/list'");
+        expect(issueOf({ type: "modal", elements: [slider, { ...dropdown, id: "volume" }] })).toContain("at '/elements': 要素のIDが重複しています");
+    });
+});
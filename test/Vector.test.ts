@@ -0,0 +1,204 @@
+import { describe, expect, mock, test } from "bun:test";
+import type { Vector3 } from "@minecraft/server";
+
+// Vector.tsが実行時に参照するのはDirectionのみ
+mock.module("@minecraft/server", () => ({
+    Direction: { Down: "Down", East: "East", North: "North", South: "South", Up: "Up", West: "West" }
+}));
+
+const { AABB, BezierCurve, Matrix3Builder, Matrix4Builder, QuaternionBuilder, Ray, TripleAxisRotationBuilder, Vector3Builder } = await import("../src/utils/Vector");
+
+function expectVectorCloseTo(actual: Vector3, expected: Vector3): void {
+    expect(actual.x).toBeCloseTo(expected.x, 6);
+    expect(actual.y).toBeCloseTo(expected.y, 6);
+    expect(actual.z).toBeCloseTo(expected.z, 6);
+}
+
+function expectQuaternionCloseTo(actual: { readonly w: number; readonly x: number; readonly y: number; readonly z: number }, expected: { readonly w: number; readonly x: number; readonly y: number; readonly z: number }): void {
+    expect(actual.w).toBeCloseTo(expected.w, 6);
+    expectVectorCloseTo(actual, expected);
+}
+
+function expectElementsCloseTo(actual: readonly number[], expected: readonly number[]): void {
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((element, index) => expect(element).toBeCloseTo(expected[index]!, 6));
+}
+
+describe("QuaternionBuilder", () => {
+    test("TripleAxisRotationBuilderから変換して戻すと元の回転になり、座標系の軸とも一致する", () => {
+        const rotations = [
+            new TripleAxisRotationBuilder(30, 20, 10),
+            new TripleAxisRotationBuilder(-120, 45, -60),
+            new TripleAxisRotationBuilder(170, -80, 90)
+        ];
+
+        for (const rotation of rotations) {
+            const quaternion = QuaternionBuilder.from(rotation);
+            const restored = quaternion.getRotation3f();
+            const coordsSystem = rotation.getObjectCoordsSystem();
+
+            expect(restored.yaw).toBeCloseTo(rotation.yaw, 6);
+            expect(restored.pitch).toBeCloseTo(rotation.pitch, 6);
+            expect(restored.roll).toBeCloseTo(rotation.roll, 6);
+
+            expectVectorCloseTo(quaternion.apply(Vector3Builder.left()), coordsSystem.getX());
+            expectVectorCloseTo(quaternion.apply(Vector3Builder.up()), coordsSystem.getY());
+            expectVectorCloseTo(quaternion.apply(Vector3Builder.forward()), coordsSystem.getZ());
+        }
+    });
+
+    test("slerpの両端は元のクォータニオンになり、中間は角度が半分の回転になる", () => {
+        const from = QuaternionBuilder.identity();
+        const to = QuaternionBuilder.fromAxisAngle(Vector3Builder.up(), 90);
+
+        expectQuaternionCloseTo(from.slerp(to, 0), from);
+        expectQuaternionCloseTo(from.slerp(to, 1), to);
+        expectQuaternionCloseTo(from.slerp(to, 0.5), QuaternionBuilder.fromAxisAngle(Vector3Builder.up(), 45));
+        expect(from.equals(QuaternionBuilder.identity())).toBe(true);
+    });
+});
+
+describe("Matrix3BuilderとMatrix4Builder", () => {
+    const rotation = new TripleAxisRotationBuilder(30, 20, 10);
+
+    test("逆行列と元の行列の積は単位行列になる", () => {
+        const matrix3 = Matrix3Builder.fromRotation(rotation).multiply(Matrix3Builder.fromScale({ x: 2, y: 3, z: 4 }));
+        const matrix4 = Matrix4Builder.fromTranslation({ x: 1, y: 2, z: 3 })
+            .multiply(Matrix4Builder.fromRotation(rotation))
+            .multiply(Matrix4Builder.fromScale({ x: 2, y: 3, z: 4 }));
+
+        expectElementsCloseTo(matrix3.clone().inverse().multiply(matrix3).toArray(), Matrix3Builder.identity().toArray());
+        expectElementsCloseTo(matrix4.clone().inverse().multiply(matrix4).toArray(), Matrix4Builder.identity().toArray());
+    });
+
+    test("行列式は拡大率の積になり、行列式が0の行列は逆行列を持たない", () => {
+        expect(Matrix3Builder.fromScale({ x: 2, y: 3, z: 4 }).determinant()).toBe(24);
+        expect(Matrix3Builder.fromRotation(rotation).determinant()).toBeCloseTo(1, 6);
+        expect(Matrix4Builder.fromScale({ x: 2, y: 3, z: 4 }).multiply(Matrix4Builder.fromTranslation({ x: 5, y: 6, z: 7 })).determinant()).toBeCloseTo(24, 6);
+        expect(Matrix3Builder.filled(1).determinant()).toBe(0);
+        expect(() => Matrix3Builder.filled(1).inverse()).toThrow(TypeError);
+    });
+
+    test("transformAll()は各点をtransform()した結果と一致する", () => {
+        const points = new Float64Array([1, 2, 3, -4, 5, 0.5, 0, 0, 0, 10, -3, 7]);
+        const matrix3 = Matrix3Builder.fromRotation(rotation).multiply(Matrix3Builder.fromScale({ x: 2, y: 3, z: 4 }));
+        const affine = Matrix4Builder.fromTranslation({ x: 1, y: 2, z: 3 }).multiply(Matrix4Builder.fromRotation(rotation));
+        // 同次座標のwが1にならない変換
+        const projective = new Matrix4Builder([
+            1, 0, 0, 0,
+            0, 1, 0, 0,
+            0, 0, 1, 0,
+            0, 0, 0.5, 2
+        ]);
+
+        for (const matrix of [matrix3, affine, projective]) {
+            const output = matrix.transformAll(points, new Float64Array(points.length));
+
+            for (let i = 0; i < points.length; i += 3) {
+                const expected = matrix.transform({ x: points[i]!, y: points[i + 1]!, z: points[i + 2]! });
+                expectVectorCloseTo({ x: output[i]!, y: output[i + 1]!, z: output[i + 2]! }, expected);
+            }
+        }
+
+        const inPlace = new Float32Array([1, 2, 3]);
+        expect(Matrix4Builder.fromTranslation({ x: 1, y: 1, z: 1 }).transformAll(inPlace)).toBe(inPlace);
+        expect([...inPlace]).toEqual([2, 3, 4]);
+    });
+});
+
+describe("AABB", () => {
+    test("重なる部分と両方を含む最小のボックスを返し、接しているだけのボックスとは交差しない", () => {
+        const a = new AABB({ x: 0, y: 0, z: 0 }, { x: 2, y: 2, z: 2 });
+        const b = new AABB({ x: 3, y: 4, z: 5 }, { x: 1, y: 1, z: 1 });
+        const touching = new AABB({ x: 2, y: 0, z: 0 }, { x: 3, y: 1, z: 1 });
+
+        expect(a.intersection(b)?.equals(new AABB({ x: 1, y: 1, z: 1 }, { x: 2, y: 2, z: 2 }))).toBe(true);
+        expect(a.union(b).equals(new AABB({ x: 0, y: 0, z: 0 }, { x: 3, y: 4, z: 5 }))).toBe(true);
+        expect(a.intersects(touching)).toBe(false);
+        expect(a.intersection(touching)).toBeUndefined();
+        expect(a.union(touching).contains(a) && a.union(touching).contains(touching)).toBe(true);
+    });
+
+    test("ブロックは指定の軸の順で列挙され、その数はgetBlockCount()と一致する", () => {
+        const box = AABB.fromBlocks({ x: 0, y: 0, z: 0 }, { x: 1, y: 2, z: 0 });
+        const coordsOf = (order: "xyz" | "yxz") => [...box.getBlocks(order)].map(({ x, y, z }) => [x, y, z]);
+
+        expect(coordsOf("xyz")).toEqual([[0, 0, 0], [0, 1, 0], [0, 2, 0], [1, 0, 0], [1, 1, 0], [1, 2, 0]]);
+        expect(coordsOf("yxz")).toEqual([[0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0], [0, 2, 0], [1, 2, 0]]);
+        expect(box.getBlockCount()).toBe(6);
+
+        // 端数のある角は、ボックスと体積を共有するブロックだけを含む
+        const partial = new AABB({ x: 0.5, y: 0, z: 0 }, { x: 2, y: 1, z: 1 });
+        expect([...partial.getBlocks()].map(({ x, y, z }) => [x, y, z])).toEqual([[0, 0, 0], [1, 0, 0]]);
+        expect(partial.getBlockCount()).toBe(2);
+    });
+});
+
+describe("Ray", () => {
+    test("軸に沿ったレイは1ブロックずつ進み、入った面の法線を返す", () => {
+        const steps = [...new Ray({ x: 0.5, y: 0.5, z: 0.5 }, { x: 1, y: 0, z: 0 }).traverseBlocks(3)];
+
+        expect(steps.map(({ block: { x, y, z } }) => [x, y, z])).toEqual([[0, 0, 0], [1, 0, 0], [2, 0, 0], [3, 0, 0]]);
+        expect(steps.map(step => step.distance)).toEqual([0, 0.5, 1.5, 2.5]);
+        expect(steps.slice(1).every(step => step.normal.equals(new Vector3Builder(-1, 0, 0)))).toBe(true);
+    });
+
+    test("斜めのレイは境界を越えた軸の順にブロックを辿る", () => {
+        const steps = [...new Ray({ x: 0.5, y: 0.5, z: 0.5 }, { x: 2, y: 1, z: 0 }).traverseBlocks(3)];
+
+        expect(steps.map(({ block: { x, y, z } }) => [x, y, z])).toEqual([[0, 0, 0], [1, 0, 0], [1, 1, 0], [2, 1, 0], [3, 1, 0]]);
+        expect(steps.slice(1).map(({ normal: { x, y, z } }) => [x, y, z])).toEqual([[-1, 0, 0], [0, -1, 0], [-1, 0, 0], [-1, 0, 0]]);
+        expect(steps[2]!.distance).toBeCloseTo(Math.sqrt(5) / 2, 6);
+    });
+
+    test("ボックスとの交差は入った面の法線を返し、始点が内側であれば距離0になる", () => {
+        const box = new AABB({ x: 2, y: -1, z: -1 }, { x: 4, y: 1, z: 1 });
+        const hit = new Ray(Vector3Builder.zero(), { x: 1, y: 0, z: 0 }).intersectAABB(box);
+
+        expect(hit?.distance).toBe(2);
+        expectVectorCloseTo(hit!.point, { x: 2, y: 0, z: 0 });
+        expectVectorCloseTo(hit!.normal, { x: -1, y: 0, z: 0 });
+        expect(new Ray(Vector3Builder.zero(), { x: 0, y: 1, z: 0 }).intersectAABB(box)).toBeUndefined();
+        expect(new Ray(Vector3Builder.zero(), { x: 1, y: 0, z: 0 }).intersectAABB(box, 1)).toBeUndefined();
+        expect(new Ray({ x: 3, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }).intersectAABB(box)).toMatchObject({ distance: 0, normal: Vector3Builder.zero() });
+    });
+
+    test("球と平面との交差は距離と外向きの法線を返す", () => {
+        const ray = new Ray(Vector3Builder.zero(), { x: 0, y: 0, z: 1 });
+        const sphere = ray.intersectSphere({ x: 0, y: 0, z: 5 }, 1);
+
+        expect(sphere?.distance).toBeCloseTo(4, 6);
+        expectVectorCloseTo(sphere!.point, { x: 0, y: 0, z: 4 });
+        expectVectorCloseTo(sphere!.normal, { x: 0, y: 0, z: -1 });
+        expect(ray.intersectSphere({ x: 0, y: 0, z: -5 }, 1)).toBeUndefined();
+
+        const plane = new Ray(Vector3Builder.zero(), { x: 0, y: 1, z: 0 }).intersectPlane({ x: 0, y: 3, z: 0 }, { x: 0, y: 1, z: 0 });
+
+        expect(plane?.distance).toBe(3);
+        expectVectorCloseTo(plane!.normal, { x: 0, y: -1, z: 0 });
+        expect(ray.intersectPlane({ x: 0, y: 3, z: 0 }, { x: 0, y: 1, z: 0 })).toBeUndefined();
+    });
+});
+
+describe("Curve", () => {
+    test("弧長で再パラメータ化されたサンプルは等間隔に並ぶ", () => {
+        // パラメータに対して速さが一定でない直線
+        const line = BezierCurve.quadratic(Vector3Builder.zero(), { x: 1, y: 0, z: 0 }, { x: 6, y: 0, z: 0 });
+        const samples = line.sampleWithTangents(7);
+
+        expect(line.getLength()).toBeCloseTo(6, 6);
+        samples.forEach((sample, index) => {
+            expect(sample.point.x).toBeCloseTo(index, 3);
+            expect(sample.distance).toBeCloseTo(index, 6);
+            expectVectorCloseTo(sample.tangent.getDirection3d(), { x: 1, y: 0, z: 0 });
+        });
+
+        const curve = BezierCurve.cubic(Vector3Builder.zero(), { x: 1, y: 3, z: 0 }, { x: 4, y: 3, z: 0 }, { x: 5, y: 0, z: 0 });
+        const points = curve.sample(11);
+        const gaps = points.slice(1).map((point, index) => point.getDistanceTo(points[index]!));
+
+        expectVectorCloseTo(points[0]!, Vector3Builder.zero());
+        expectVectorCloseTo(points[10]!, { x: 5, y: 0, z: 0 });
+        expect(Math.max(...gaps) / Math.min(...gaps)).toBeLessThan(1.01);
+    });
+});